@@ -1,6 +1,6 @@
 import Typista from './typista.ts'
 import BkTree from './bktree.ts'
-import { assertEquals } from '@std/assert'
+import { assert, assertEquals } from '@std/assert'
 
 const aff = await Deno.readTextFile('./dictionaries/en_US/en_US.aff')
 const dic = await Deno.readTextFile('./dictionaries/en_US/en_US.dic')
@@ -54,3 +54,79 @@ Deno.test('suggest', async (t) => {
 		assertEquals(suggestions, ['hostipal', 'hospital', 'hostile', 'hostilely', 'hostiles', 'hosting'])
 	})
 })
+
+Deno.test('snapshot', async (t) => {
+	const typista = new Typista(aff, dic)
+	const bkTree = new BkTree(typista.words.slice(0, 5000))
+
+	await t.step('round trip', () => {
+		const snapshot = bkTree.toSnapshot()
+		const restored = BkTree.fromSnapshot(structuredClone(snapshot))
+
+		assertEquals(restored.toSnapshot(), snapshot)
+		assertEquals(restored.query('abbot', 2), bkTree.query('abbot', 2))
+	})
+
+	await t.step('empty', () => {
+		const restored = BkTree.fromSnapshot(new BkTree([]).toSnapshot())
+
+		assertEquals(restored.root, null)
+		assertEquals(restored.query('xy', 2), [])
+	})
+})
+
+Deno.test('removeWord', async (t) => {
+	const typista = new Typista(aff, dic)
+	const words = typista.words.slice(0, 5000)
+
+	await t.step('removed and re-added', () => {
+		const bkTree = new BkTree([...words])
+		const size = bkTree.size
+
+		bkTree.removeWord('abbot')
+		bkTree.removeWord('abbot')
+		bkTree.removeWord('not a word')
+		assertEquals(bkTree.size, size - 1)
+		assert(!bkTree.query('abbot', 2).includes('abbot'))
+		assert(bkTree.query('abbot', 2).includes('abbots'))
+
+		bkTree.addWord('abbot')
+		assertEquals(bkTree.size, size)
+		assertEquals(bkTree.query('abbot', 2), new BkTree([...words]).query('abbot', 2))
+	})
+
+	await t.step('root', () => {
+		const bkTree = new BkTree(['foo', 'bar', 'baz'])
+		bkTree.removeWord('baz')
+
+		assertEquals(bkTree.root, 'baz')
+		assertEquals(bkTree.query('baz', 1), ['bar'])
+	})
+
+	await t.step('snapshot', () => {
+		const bkTree = new BkTree([...words])
+		bkTree.removeWord('abbot')
+		const restored = BkTree.fromSnapshot(structuredClone(bkTree.toSnapshot()))
+
+		assertEquals(restored.toSnapshot(), bkTree.toSnapshot())
+		assertEquals(restored.size, bkTree.size)
+		assertEquals(restored.query('abbot', 2), bkTree.query('abbot', 2))
+	})
+
+	await t.step('compaction', () => {
+		const bkTree = new BkTree([...words])
+		const removed = words.filter((_, i) => i % 3 !== 0)
+		for (const word of removed.slice(0, words.length / 4)) {
+			bkTree.removeWord(word)
+		}
+		assertEquals(bkTree.toSnapshot().terms.length, words.length)
+
+		for (const word of removed) {
+			bkTree.removeWord(word)
+		}
+		const remaining = words.filter((_, i) => i % 3 === 0)
+		assertEquals(bkTree.size, remaining.length)
+		assert(bkTree.toSnapshot().terms.length < words.length * 0.6)
+		assertEquals(bkTree.query('abbot', 2).toSorted(), new BkTree([...remaining]).query('abbot', 2).toSorted())
+	})
+})
@@ -4,41 +4,69 @@
 // Jonah H. Harris <jonah.harris@gmail.com>
 
 import { levenshteinDistance } from '@std/text/levenshtein-distance'
-import { damerauDistance } from './damerauSymSpell.ts'
-import { memoize } from '@std/cache/memoize'
-import { LruCache } from '@std/cache/lru-cache'
-import { lexicographicalCompare } from './utils.ts'
-
-// TODO: fix types in @std/cache/memoize to avoid need for `any`
-// deno-lint-ignore no-explicit-any
-const normalizationCache = new LruCache<string, any>(1e5)
-const normalizeWith = memoize(function normalizeWith(normalizer: Normalizer, str: string) {
-	return normalizer(str)
-}, { cache: normalizationCache })
-type Normalizer = (str: string) => string
-// each builds on the previous so each normalization should only be done once (e.g. subsequent normalizations don't both
-// need to call `toLowerCase()`)
-const normalizers: Normalizer[] = [
-	// // seems slow, omit for now
-	// (str) => str.normalize(),
-	(str) => str.toLowerCase(),
-	(str) => str.replaceAll(/(.)\1/gsu, '$1'),
-]
-
-export default class BkTree {
-	root: string | null
-	children: Record<number, BkTree>
-
-	constructor(words: string[]) {
-		// https://github.com/jonahharris/node-bktree/pull/1
-		const root = words.pop() ?? null
+import { Ranker, type RankingOptions } from './ranking.ts'
+import type { Suggester } from './suggester.ts'
+
+/** Flattened representation of a BK-Tree, which can be restored without recalculating any distances */
+export type BkTreeSnapshot = {
+	/** Terms of the nodes, in pre-order */
+	terms: string[]
+	/** Distance of each node from its parent (`-1` for the root) */
+	distances: number[]
+	/** Number of children of each node */
+	childCounts: number[]
+	/** Indexes of the nodes whose terms have been removed */
+	removed?: number[]
+}
+
+/**
+ * Maximum ratio of removed terms to remaining terms before the tree is compacted, as removed terms are kept (to avoid
+ * restructuring their descendants) and still have to be traversed when querying
+ */
+const MAX_REMOVED_RATIO = 0.5
+
+/** A node of a BK-Tree, which holds as little as possible, as there's one for each term */
+class BkTreeNode {
+	term: string
+	children: Record<number, BkTreeNode> = Object.create(null)
+	/** Whether the term has been removed, in which case the node is kept for the sake of its children */
+	removed = false
+
+	constructor(term: string) {
+		this.term = term
+	}
+}
+
+export default class BkTree implements Suggester {
+	#root: BkTreeNode | null = null
+	#ranker: Ranker
+	/** Number of terms in the tree, not including removed ones */
+	#size = 0
+	/** Number of removed terms still in the tree */
+	#removedCount = 0
 
-		this.root = root
-		this.children = Object.create(null)
+	constructor(words: string[], options?: Partial<RankingOptions>) {
+		this.#ranker = new Ranker(options)
+
+		// https://github.com/jonahharris/node-bktree/pull/1
+		const root = words.pop()
+		if (root != null) {
+			this.addWord(root)
+		}
 
 		this.addWords(words)
 	}
 
+	/** Term of the root node, which may have been removed, or `null` if the tree is empty. */
+	get root(): string | null {
+		return this.#root?.term ?? null
+	}
+
+	/** Number of terms in the tree, not including removed ones. */
+	get size(): number {
+		return this.#size
+	}
+
 	addWords(terms: string[]) {
 		for (const t of terms) {
 			this.addWord(t)
@@ -46,98 +74,178 @@ export default class BkTree {
 	}
 
 	addWord(term: string) {
-		if (this.root == null) {
-			this.root = term
-			return
+		const existing = this.#insert(term)
+
+		if (existing == null) {
+			++this.#size
+		} else if (existing.removed) {
+			existing.removed = false
+			--this.#removedCount
+			++this.#size
+		} else {
+			// word already exists in tree - no-op
 		}
+	}
 
-		const dist = levenshteinDistance(this.root, term)
+	/**
+	 * Removes a term from the tree. Its node is kept until the tree is compacted, which happens automatically once
+	 * enough terms have been removed.
+	 *
+	 * @param term The term to remove.
+	 */
+	removeWord(term: string) {
+		const node = this.#find(term)
+		if (node == null || node.removed) {
+			return
+		}
 
-		const child = this.children[dist]
+		node.removed = true
+		++this.#removedCount
+		--this.#size
 
-		if (child == null) {
-			this.children[dist] = new BkTree([term])
-		} else if (child.root !== term) {
-			child.addWord(term)
-		} else {
-			// word already exists in tree - no-op
+		if (this.#removedCount > this.#size * MAX_REMOVED_RATIO) {
+			this.compact()
 		}
 	}
 
-	#compare(queryTerm: string) {
-		return (a: string, b: string) => {
-			if (a === queryTerm) return -1
-			if (b === queryTerm) return 1
+	/** Rebuilds the tree without the nodes of removed terms. */
+	compact() {
+		const { terms, removed } = this.toSnapshot()
+		const removedIndexes = new Set(removed)
+		const remainingTerms = terms.filter((_, i) => !removedIndexes.has(i))
+
+		this.#root = null
+		this.#size = 0
+		this.#removedCount = 0
 
-			let na = a
-			let nb = b
-			let nQueryTerm = queryTerm
+		this.addWords(remainingTerms)
+	}
 
-			// prefer words that are normalized to the same thing as the query term
-			for (const normalizer of normalizers) {
-				na = normalizeWith(normalizer, na)
-				nb = normalizeWith(normalizer, nb)
-				nQueryTerm = normalizeWith(normalizer, nQueryTerm)
+	/**
+	 * Adds a term to the tree if it isn't already in it.
+	 *
+	 * @returns The existing node for the term, which may have been removed, or `null` if the term was added.
+	 */
+	#insert(term: string): BkTreeNode | null {
+		if (this.#root == null) {
+			this.#root = new BkTreeNode(term)
+			return null
+		}
 
-				if (na === nQueryTerm) return -1
-				if (nb === nQueryTerm) return 1
+		let node = this.#root
+		while (node.term !== term) {
+			const dist = levenshteinDistance(node.term, term)
+			const child = node.children[dist]
+			if (child == null) {
+				node.children[dist] = new BkTreeNode(term)
+				return null
 			}
+			node = child
+		}
+		return node
+	}
 
-			na = a
-			nb = b
-			nQueryTerm = queryTerm
+	#find(term: string): BkTreeNode | null {
+		let node = this.#root
+		while (node != null && node.term !== term) {
+			node = node.children[levenshteinDistance(node.term, term)] ?? null
+		}
+		return node
+	}
 
-			// prefer words that have closer Demerau distance to the query term
-			for (const normalizer of normalizers) {
-				na = normalizeWith(normalizer, na)
-				nb = normalizeWith(normalizer, nb)
-				nQueryTerm = normalizeWith(normalizer, nQueryTerm)
+	toSnapshot(): BkTreeSnapshot {
+		const snapshot: Required<BkTreeSnapshot> = { terms: [], distances: [], childCounts: [], removed: [] }
+		if (this.#root == null) {
+			return snapshot
+		}
+
+		const stack: [BkTreeNode, number][] = [[this.#root, -1]]
+		while (stack.length) {
+			const [node, dist] = stack.pop()!
+			const children = Object.entries(node.children)
 
-				const diff = damerauDistance(na, nQueryTerm) - damerauDistance(nb, nQueryTerm)
-				if (diff) return diff
+			if (node.removed) {
+				snapshot.removed.push(snapshot.terms.length)
 			}
+			snapshot.terms.push(node.term)
+			snapshot.distances.push(dist)
+			snapshot.childCounts.push(children.length)
+
+			for (let i = children.length - 1; i >= 0; --i) {
+				stack.push([children[i][1], Number(children[i][0])])
+			}
+		}
 
-			// prefer words that start with a substring of the query term
-			for (let i = 0; i < Math.min(a.length, b.length); ++i) {
-				const aeq = a[i] === queryTerm[i]
-				const beq = b[i] === queryTerm[i]
+		return snapshot
+	}
+
+	static fromSnapshot(snapshot: BkTreeSnapshot, options?: Partial<RankingOptions>): BkTree {
+		const tree = new BkTree([], options)
+		if (!snapshot.terms.length) {
+			return tree
+		}
 
-				if (aeq && !beq) return -1
-				if (!aeq && beq) return 1
+		const root = new BkTreeNode(snapshot.terms[0])
+		const nodes = [root]
+		// each item is a node along with the number of its children that are yet to be restored
+		const stack: [BkTreeNode, number][] = [[root, snapshot.childCounts[0]]]
+		for (let i = 1; i < snapshot.terms.length; ++i) {
+			while (stack.at(-1)![1] === 0) {
+				stack.pop()
 			}
+			const parent = stack.at(-1)!
+			--parent[1]
 
-			// just to ensure that the order is stable
-			return lexicographicalCompare(a, b)
+			const node = new BkTreeNode(snapshot.terms[i])
+			parent[0].children[snapshot.distances[i]] = node
+			stack.push([node, snapshot.childCounts[i]])
+			nodes.push(node)
 		}
-	}
 
-	query(queryTerm: string, maxDist: number): string[] {
-		const resultsData = this.#query(queryTerm, maxDist).map((x) => x.text).sort(this.#compare(queryTerm))
+		for (const i of snapshot.removed ?? []) {
+			nodes[i].removed = true
+		}
+		tree.#root = root
+		tree.#removedCount = snapshot.removed?.length ?? 0
+		tree.#size = nodes.length - tree.#removedCount
 
-		return resultsData
+		return tree
 	}
 
-	#query(queryTerm: string, maxDist: number, resultsData: { text: string; dist: number }[] = []) {
-		if (this.root == null) {
-			return resultsData
+	query(queryTerm: string, maxDist: number): string[] {
+		const terms: string[] = []
+		if (this.#root != null) {
+			this.#query(this.#root, queryTerm, maxDist, terms)
 		}
+		return this.rank(queryTerm, terms)
+	}
 
-		const dist = levenshteinDistance(this.root, queryTerm)
+	/**
+	 * Sorts terms by how good a match they are for the query term, using the same ordering as `query`.
+	 *
+	 * @param queryTerm The term to rank against.
+	 * @param terms The terms to rank, which need not be in the tree.
+	 * @returns A new array of the ranked terms.
+	 */
+	rank(queryTerm: string, terms: string[]): string[] {
+		return this.#ranker.rank(queryTerm, terms)
+	}
 
-		if (dist <= maxDist) {
-			resultsData.push({ text: this.root, dist })
+	#query(node: BkTreeNode, queryTerm: string, maxDist: number, results: string[]) {
+		const dist = levenshteinDistance(node.term, queryTerm)
+
+		if (dist <= maxDist && !node.removed) {
+			results.push(node.term)
 		}
 
 		const min = dist - maxDist
 		const max = dist + maxDist
 
 		for (let i = min; i <= max; ++i) {
-			const child = this.children[i]
+			const child = node.children[i]
 			if (child != null) {
-				child.#query(queryTerm, maxDist, resultsData)
+				this.#query(child, queryTerm, maxDist, results)
 			}
 		}
-
-		return resultsData
 	}
 }
@@ -0,0 +1,52 @@
+/**
+ * Casing pattern of a word:
+ * - `lower`: no uppercase letters (`hospital`), which includes words without any cased letters
+ * - `title`: only the first letter is uppercase (`Hospital`)
+ * - `upper`: only uppercase letters, and more than one of them (`HOSPITAL`)
+ * - `mixed`: any other pattern (`hoSPital`, `McDonald`)
+ */
+export type Casing = 'lower' | 'title' | 'upper' | 'mixed'
+
+function isUpperCase(char: string) {
+	return char !== char.toLowerCase()
+}
+
+function isLowerCase(char: string) {
+	return char !== char.toUpperCase()
+}
+
+/**
+ * Detects the casing pattern of a word.
+ *
+ * @param word The word.
+ */
+export function detectCasing(word: string): Casing {
+	const chars = [...word]
+
+	const upperCount = chars.filter(isUpperCase).length
+	if (upperCount === 0) return 'lower'
+	if (upperCount === 1 && isUpperCase(chars[0])) return 'title'
+	if (upperCount > 1 && !chars.some(isLowerCase)) return 'upper'
+	return 'mixed'
+}
+
+/**
+ * Applies a casing pattern to a word, such as a suggestion for a word with that pattern. Lowercase and mixed-case
+ * patterns leave the word as it is, as do words that are already capitalized when applying title case (`McDonald`).
+ *
+ * @param word The word.
+ * @param casing The casing pattern.
+ */
+export function applyCasing(word: string, casing: Casing): string {
+	switch (casing) {
+		case 'lower':
+		case 'mixed':
+			return word
+		case 'title': {
+			const [first = '', ...rest] = word
+			return first.toUpperCase() + rest.join('')
+		}
+		case 'upper':
+			return word.toUpperCase()
+	}
+}
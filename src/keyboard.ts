@@ -0,0 +1,34 @@
+/** Hunspell's default `KEY` layout (QWERTY), used when the .aff file doesn't declare one */
+export const DEFAULT_KEYBOARD_LAYOUT = 'qwertyuiop|asdfghjkl|zxcvbnm'
+
+export type KeyboardNeighbors = Map<string, Set<string>>
+
+/**
+ * Parses a keyboard layout in the format of Hunspell's `KEY` directive, i.e. `|`-separated groups of characters in
+ * which each character neighbors the characters either side of it.
+ *
+ * @param layout The keyboard layout, e.g. `qwertyuiop|asdfghjkl|zxcvbnm`.
+ * @returns A map of each character to its neighboring characters.
+ */
+export function parseKeyboardLayout(layout: string): KeyboardNeighbors {
+	const neighbors: KeyboardNeighbors = new Map()
+
+	const addNeighbor = (a: string, b: string) => {
+		let set = neighbors.get(a)
+		if (set == null) {
+			set = new Set()
+			neighbors.set(a, set)
+		}
+		set.add(b)
+	}
+
+	for (const group of layout.split('|')) {
+		const chars = [...group]
+		for (let i = 1; i < chars.length; ++i) {
+			addNeighbor(chars[i - 1], chars[i])
+			addNeighbor(chars[i], chars[i - 1])
+		}
+	}
+
+	return neighbors
+}
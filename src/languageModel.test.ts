@@ -0,0 +1,60 @@
+import LanguageModel from './languageModel.ts'
+import { assert, assertAlmostEquals, assertEquals } from '@std/assert'
+
+const counts = `
+the 6
+cat 2
+sat 2
+on 2
+mat 1
+the cat 2
+cat sat 2
+sat on 2
+on the 2
+the mat 1
+the cat sat 2
+cat sat on 2
+on the mat 1
+`
+
+Deno.test('language model', async (t) => {
+	const model = LanguageModel.parse(counts)
+
+	await t.step('parse', () => {
+		assertEquals(model.order, 3)
+		assert(model.has('The'))
+		assert(!model.has('dog'))
+	})
+
+	await t.step('score', () => {
+		assertAlmostEquals(model.score(['cat']), Math.log(2 / 13))
+		assertAlmostEquals(model.score(['the', 'cat']), Math.log(2 / 3))
+		assertAlmostEquals(model.score(['The', 'Cat', 'Sat']), Math.log(2 / 2))
+		// uses at most as many words as the model's order
+		assertEquals(model.score(['a', 'cat', 'sat', 'on']), model.score(['cat', 'sat', 'on']))
+	})
+
+	await t.step('backoff', () => {
+		// `mat sat` isn't seen, so it backs off to `sat`
+		assertAlmostEquals(model.score(['mat', 'sat']), Math.log(0.4) + Math.log(2 / 13))
+		assertAlmostEquals(model.score(['sat', 'the', 'mat']), Math.log(0.4) + Math.log(1 / 3))
+		assert(model.score(['the', 'dog']) < model.score(['the', 'on']))
+	})
+
+	await t.step('score sequence', () => {
+		assertAlmostEquals(
+			model.scoreSequence(['the'], ['cat', 'sat']),
+			model.score(['the', 'cat']) + model.score(['the', 'cat', 'sat']),
+		)
+		assert(model.scoreSequence(['on', 'the'], ['mat']) > model.scoreSequence(['on', 'the'], ['cat']))
+	})
+
+	await t.step('add', () => {
+		const model = new LanguageModel()
+		model.add(['cat'])
+		model.add(['cat'], 2)
+		model.add(['dog'])
+		assertEquals(model.order, 1)
+		assertAlmostEquals(model.score(['cat']), Math.log(3 / 4))
+	})
+})
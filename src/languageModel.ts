@@ -0,0 +1,119 @@
+type LanguageModelOptions = {
+	/** Factor by which a score is multiplied each time it backs off to a shorter n-gram, as in "stupid backoff". */
+	backoff: number
+}
+
+const defaultLanguageModelOptions: LanguageModelOptions = {
+	backoff: 0.4,
+}
+
+/** Count used for words that the model hasn't seen, which should be less likely than any word it has seen once */
+const UNSEEN_COUNT = 0.5
+
+/**
+ * An n-gram language model, which scores how likely a word is to follow the words before it, using counts of the
+ * n-grams (typically up to trigrams) in a corpus. Unseen n-grams back off to shorter ones, with "stupid backoff".
+ *
+ * Words are compared case-insensitively.
+ *
+ * @see https://aclanthology.org/D07-1090.pdf
+ */
+export default class LanguageModel {
+	/** Count of each n-gram, keyed by its words joined with spaces */
+	#counts = new Map<string, number>()
+	/** Total count of the n-grams that begin with each (n - 1)-gram, keyed by its words joined with spaces */
+	#contextCounts = new Map<string, number>()
+	#order = 0
+	#backoff: number
+
+	constructor(options?: Partial<LanguageModelOptions>) {
+		this.#backoff = options?.backoff ?? defaultLanguageModelOptions.backoff
+	}
+
+	/**
+	 * Parses an n-gram count list, with the words of an n-gram followed by its count on each line (`want to buy 1234`).
+	 * Shorter n-grams should be included down to single words, as they're backed off to.
+	 *
+	 * @param text The contents of the n-gram count list.
+	 * @param options Options for the model.
+	 * @returns The model.
+	 */
+	static parse(text: string, options?: Partial<LanguageModelOptions>): LanguageModel {
+		const model = new LanguageModel(options)
+		for (const line of text.split(/\r?\n/)) {
+			const words = line.trim().split(/\s+/)
+			const count = Number(words.pop())
+			if (words.length && words[0] && count > 0) {
+				model.add(words, count)
+			}
+		}
+		return model
+	}
+
+	/** Length of the longest n-grams in the model. */
+	get order(): number {
+		return this.#order
+	}
+
+	/**
+	 * Adds occurrences of an n-gram.
+	 *
+	 * @param words The words of the n-gram.
+	 * @param count The number of occurrences.
+	 */
+	add(words: string[], count = 1) {
+		const ngram = words.map((word) => word.toLowerCase())
+		const key = ngram.join(' ')
+		const contextKey = ngram.slice(0, -1).join(' ')
+
+		this.#counts.set(key, (this.#counts.get(key) ?? 0) + count)
+		this.#contextCounts.set(contextKey, (this.#contextCounts.get(contextKey) ?? 0) + count)
+		this.#order = Math.max(this.#order, ngram.length)
+	}
+
+	/**
+	 * Whether the model has seen a word.
+	 *
+	 * @param word The word.
+	 */
+	has(word: string): boolean {
+		return this.#counts.has(word.toLowerCase())
+	}
+
+	/**
+	 * Scores how likely the last of a sequence of words is to follow the words before it.
+	 *
+	 * @param words The sequence of words, of which only as many are used as the model's order.
+	 * @returns The logarithm of the score, which is like a probability but not normalized.
+	 */
+	score(words: string[]): number {
+		const ngram = words.slice(-this.#order || words.length).map((word) => word.toLowerCase())
+
+		let logBackoff = 0
+		for (let i = 0; i < ngram.length; ++i) {
+			const count = this.#counts.get(ngram.slice(i).join(' '))
+			if (count != null) {
+				return logBackoff + Math.log(count / this.#contextCounts.get(ngram.slice(i, -1).join(' '))!)
+			}
+			logBackoff += Math.log(this.#backoff)
+		}
+
+		return logBackoff + Math.log(UNSEEN_COUNT / Math.max(this.#contextCounts.get('') ?? 0, 1))
+	}
+
+	/**
+	 * Scores how likely a sequence of words is to follow the words before it, as the sum of the scores of each word.
+	 *
+	 * @param before The words before the sequence.
+	 * @param words The sequence of words.
+	 * @returns The logarithm of the score.
+	 */
+	scoreSequence(before: string[], words: string[]): number {
+		const all = [...before, ...words]
+		let score = 0
+		for (let i = before.length; i < all.length; ++i) {
+			score += this.score(all.slice(0, i + 1))
+		}
+		return score
+	}
+}
@@ -0,0 +1,56 @@
+import MultiTypista from './multiTypista.ts'
+import Typista from './typista.ts'
+import { assertEquals, assertThrows } from '@std/assert'
+
+const english = new Typista(
+	await Deno.readTextFile('./dictionaries/en_US/en_US.aff'),
+	await Deno.readTextFile('./dictionaries/en_US/en_US.dic'),
+)
+const french = new Typista(
+	await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.aff'),
+	"6\nélève/S.\nhomme/L'S.\nchat/S.\nle\nest\nde\n",
+)
+
+Deno.test('MultiTypista', async (t) => {
+	const typista = new MultiTypista({ en_US: english, fr_FR: french })
+
+	await t.step('check', () => {
+		assertEquals(typista.check('hospital'), true)
+		assertEquals(typista.check('élèves'), true)
+		assertEquals(typista.check('hostipal'), false)
+	})
+
+	await t.step('matching languages', () => {
+		assertEquals(typista.matchingLanguages('hospital'), ['en_US'])
+		assertEquals(typista.matchingLanguages("l'homme"), ['fr_FR'])
+		assertEquals(typista.matchingLanguages('chat'), ['en_US', 'fr_FR'])
+		assertEquals(typista.matchingLanguages('hostipal'), [])
+	})
+
+	await t.step('suggest', () => {
+		assertEquals(typista.suggest('eleve', { limit: 3 }), [
+			{ word: 'élève', languages: ['fr_FR'] },
+			{ word: 'elev', languages: ['en_US'] },
+			{ word: 'eleven', languages: ['en_US'] },
+		])
+		assertEquals(typista.suggest('chatt', { limit: 1 }), [{ word: 'chat', languages: ['en_US', 'fr_FR'] }])
+	})
+
+	await t.step('checkText', () => {
+		const text = "The chat est le hospitl de l'homme"
+		assertEquals(typista.checkText(text), [{ word: 'hospitl', start: 16, end: 23 }])
+		assertEquals(typista.checkText(text, { suggest: { limit: 1 } }), [
+			{ word: 'hospitl', start: 16, end: 23, suggestions: [{ word: 'hospital', languages: ['en_US'] }] },
+		])
+	})
+
+	await t.step('active languages', () => {
+		typista.activeLanguages = ['en_US']
+		assertEquals(typista.check('élèves'), false)
+		assertEquals(typista.checkText("l'homme").map((m) => m.word), ["l'homme"])
+
+		assertThrows(() => typista.activeLanguages = ['de_DE'], Error, 'Unknown language')
+		typista.activeLanguages = typista.languages
+		assertEquals(typista.check('élèves'), true)
+	})
+})
@@ -0,0 +1,179 @@
+import Typista, { type CheckTextOptions, defaultSuggestOptions, type SuggestOptions } from './typista.ts'
+import type { Token } from './tokenize.ts'
+import { damerauDistance } from './damerauSymSpell.ts'
+
+export type LanguageSuggestion = {
+	word: string
+	/** The languages whose dictionaries suggested the word, in the order of the dictionaries */
+	languages: string[]
+}
+
+export type MultiMisspelling = Token & {
+	suggestions?: LanguageSuggestion[]
+}
+
+type MultiTypistaOptions = {
+	/** The languages to check against initially, which defaults to all of them. */
+	activeLanguages: string[] | null
+}
+
+const defaultMultiTypistaOptions: MultiTypistaOptions = {
+	activeLanguages: null,
+}
+
+function foldCaseAndDiacritics(str: string) {
+	return str.normalize('NFD').replaceAll(/\p{M}/gu, '').toLowerCase()
+}
+
+/**
+ * A spellchecker for text in several languages, which accepts words that are correct in any of its active languages.
+ */
+export default class MultiTypista {
+	#dictionaries: Map<string, Typista>
+	#activeLanguages: string[]
+
+	/**
+	 * @param dictionaries A spellchecker for each language, keyed by language (e.g. `en_US`).
+	 * @param options `activeLanguages` option.
+	 */
+	constructor(dictionaries: Record<string, Typista>, options?: Partial<MultiTypistaOptions>) {
+		const { activeLanguages } = { ...defaultMultiTypistaOptions, ...options }
+
+		this.#dictionaries = new Map(Object.entries(dictionaries))
+		this.#activeLanguages = []
+		this.activeLanguages = activeLanguages ?? this.languages
+	}
+
+	/** All languages, in the order of the dictionaries. */
+	get languages(): string[] {
+		return [...this.#dictionaries.keys()]
+	}
+
+	/** The languages that words are checked against, in the order of the dictionaries. */
+	get activeLanguages(): string[] {
+		return this.#activeLanguages
+	}
+
+	set activeLanguages(languages: string[]) {
+		for (const language of languages) {
+			if (!this.#dictionaries.has(language)) {
+				throw new Error(`Unknown language: ${language}`)
+			}
+		}
+		this.#activeLanguages = this.languages.filter((language) => languages.includes(language))
+	}
+
+	/**
+	 * Gets the spellchecker for a language.
+	 *
+	 * @param language The language.
+	 */
+	getDictionary(language: string): Typista | undefined {
+		return this.#dictionaries.get(language)
+	}
+
+	/**
+	 * Checks whether a word is correct in any active language.
+	 *
+	 * @param word The word to check.
+	 */
+	check(word: string): boolean {
+		return this.#active().some(([_, typista]) => typista.check(word))
+	}
+
+	/**
+	 * Gets the active languages in which a word is correct.
+	 *
+	 * @param word The word to check.
+	 * @returns The languages, in the order of the dictionaries.
+	 */
+	matchingLanguages(word: string): string[] {
+		return this.#active().filter(([_, typista]) => typista.check(word)).map(([language]) => language)
+	}
+
+	/**
+	 * Get suggestions for a word from all active languages.
+	 *
+	 * Suggestions are ranked by their Damerau distance to the word ignoring case and diacritics, then by their ranking
+	 * within each language's suggestions, so that each language's own ordering is kept.
+	 *
+	 * @param word The word to get suggestions for.
+	 * @param options Options for suggesting, which apply to each language as well as to the merged suggestions.
+	 * @returns The suggestions, each with the languages that suggested it.
+	 */
+	suggest(word: string, options?: Partial<SuggestOptions>): LanguageSuggestion[] {
+		const { limit } = { ...defaultSuggestOptions, ...options }
+
+		const suggestions = new Map<string, LanguageSuggestion & { rank: number }>()
+		for (const [language, typista] of this.#active()) {
+			for (const [rank, suggestion] of typista.suggest(word, options).entries()) {
+				const existing = suggestions.get(suggestion)
+				if (existing == null) {
+					suggestions.set(suggestion, { word: suggestion, languages: [language], rank })
+				} else {
+					existing.languages.push(language)
+					existing.rank = Math.min(existing.rank, rank)
+				}
+			}
+		}
+
+		const foldedWord = foldCaseAndDiacritics(word)
+		return [...suggestions.values()]
+			.map((suggestion) => ({
+				...suggestion,
+				dist: damerauDistance(foldCaseAndDiacritics(suggestion.word), foldedWord),
+			}))
+			// stable sort, so ties stay in the order of the dictionaries
+			.sort((a, b) => a.dist - b.dist || a.rank - b.rank)
+			.slice(0, limit ?? undefined)
+			.map(({ word, languages }) => ({ word, languages }))
+	}
+
+	/**
+	 * Checks all the words in a text, reporting those that aren't correct in any active language.
+	 *
+	 * Each language splits the text into words in its own way, so a word reported by one language is only a misspelling
+	 * if no other language accepts it. Where reported words overlap, only the first is kept.
+	 *
+	 * @param text The text to check.
+	 * @param options Options for checking. Joining words isn't supported, as each language would join them differently,
+	 * and nor are real-word errors, as a word that's unlikely in one language may be intended in another.
+	 * @returns The misspellings, in order of occurrence, with `start` and `end` as UTF-16 offsets into `text`.
+	 */
+	checkText(
+		text: string,
+		options?: Partial<Omit<CheckTextOptions, 'joinWords' | 'realWordErrors'>>,
+	): MultiMisspelling[] {
+		const active = this.#active()
+
+		const candidates: Token[] = []
+		for (const [language, typista] of active) {
+			for (const { word, start, end } of typista.checkText(text)) {
+				if (active.every(([other, typista]) => other === language || !typista.check(word))) {
+					candidates.push({ word, start, end })
+				}
+			}
+		}
+		candidates.sort((a, b) => a.start - b.start || a.end - b.end)
+
+		const misspellings: Token[] = []
+		for (const candidate of candidates) {
+			const previous = misspellings.at(-1)
+			if (previous == null || candidate.start >= previous.end) {
+				misspellings.push(candidate)
+			}
+		}
+
+		const suggest = options?.suggest ?? false
+		return suggest
+			? misspellings.map((m) => ({
+				...m,
+				suggestions: this.suggest(m.word, suggest === true ? undefined : suggest),
+			}))
+			: misspellings
+	}
+
+	#active(): [string, Typista][] {
+		return this.#activeLanguages.map((language) => [language, this.#dictionaries.get(language)!])
+	}
+}
@@ -0,0 +1,118 @@
+type PersonalDictionaryOptions = {
+	/** Called whenever the words in the dictionary change. */
+	onChange: (() => void) | null
+}
+
+const defaultPersonalDictionaryOptions: PersonalDictionaryOptions = {
+	onChange: null,
+}
+
+/**
+ * A list of words to add to a dictionary, along with a list of words to ignore, i.e. treat as not being in it.
+ *
+ * Personal dictionaries are imported and exported in the format of Hunspell's personal dictionaries, with one word per
+ * line. A word may be followed by `/` and a model word from the dictionary, whose affixes it then takes (`foo/bar`), and
+ * ignored words are prefixed with `*`.
+ */
+export default class PersonalDictionary {
+	#added = new Map<string, string | null>()
+	#ignored = new Set<string>()
+	#onChange: PersonalDictionaryOptions['onChange']
+
+	constructor(options?: Partial<PersonalDictionaryOptions>) {
+		this.#onChange = options?.onChange ?? defaultPersonalDictionaryOptions.onChange
+	}
+
+	/** The added words, each with its model word, or `null` if it has none. */
+	get added(): ReadonlyMap<string, string | null> {
+		return this.#added
+	}
+
+	/** The ignored words. */
+	get ignored(): ReadonlySet<string> {
+		return this.#ignored
+	}
+
+	/**
+	 * Adds a word, which stops it being ignored.
+	 *
+	 * @param word The word to add.
+	 * @param model A dictionary word whose affixes the word takes.
+	 */
+	add(word: string, model?: string): void {
+		this.#add(word, model)
+		this.#onChange?.()
+	}
+
+	/**
+	 * Ignores a word, which removes it if it was added.
+	 *
+	 * @param word The word to ignore.
+	 */
+	ignore(word: string): void {
+		this.#ignore(word)
+		this.#onChange?.()
+	}
+
+	/**
+	 * Removes a word from the added or ignored words.
+	 *
+	 * @param word The word to remove.
+	 */
+	delete(word: string): void {
+		this.#added.delete(word)
+		this.#ignored.delete(word)
+		this.#onChange?.()
+	}
+
+	/** Removes all added and ignored words. */
+	clear(): void {
+		this.#added.clear()
+		this.#ignored.clear()
+		this.#onChange?.()
+	}
+
+	/**
+	 * Imports words in Hunspell's personal dictionary format, in addition to the existing ones.
+	 *
+	 * @param data The contents of a personal dictionary file.
+	 */
+	import(data: string): void {
+		for (let line of data.split(/\r?\n/)) {
+			line = line.trim()
+			if (!line) {
+				continue
+			}
+
+			if (line.startsWith('*')) {
+				this.#ignore(line.slice(1))
+			} else {
+				const [word, model] = line.split('/', 2)
+				this.#add(word, model)
+			}
+		}
+		this.#onChange?.()
+	}
+
+	/**
+	 * Exports the words in Hunspell's personal dictionary format.
+	 *
+	 * @returns The contents of a personal dictionary file.
+	 */
+	export(): string {
+		return [
+			...[...this.#added].map(([word, model]) => model == null ? word : `${word}/${model}`),
+			...[...this.#ignored].map((word) => `*${word}`),
+		].map((line) => `${line}\n`).join('')
+	}
+
+	#add(word: string, model?: string) {
+		this.#ignored.delete(word)
+		this.#added.set(word, model || null)
+	}
+
+	#ignore(word: string) {
+		this.#added.delete(word)
+		this.#ignored.add(word)
+	}
+}
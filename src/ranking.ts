@@ -0,0 +1,161 @@
+import { damerauDistance } from './damerauSymSpell.ts'
+import { lexicographicalCompare, memoizeLru } from './utils.ts'
+
+export type Normalizer = (str: string) => string
+
+/** Collapses doubled characters into single ones, e.g. `occurred` to `ocured`. */
+export function collapseDoubledLetters(str: string): string {
+	return str.replaceAll(/(.)\1/gsu, '$1')
+}
+
+// each builds on the previous so each normalization should only be done once (e.g. subsequent normalizations don't both
+// need to call `toLowerCase()`)
+const normalizers: Normalizer[] = [
+	// // seems slow, omit for now
+	// (str) => str.normalize(),
+	(str) => str.toLowerCase(),
+	collapseDoubledLetters,
+]
+
+/** Memoized version of each normalizer, keyed by identity so that different normalizers never share results */
+const memoizedNormalizers = new WeakMap<Normalizer, Normalizer>()
+
+function memoizeNormalizer(normalizer: Normalizer): Normalizer {
+	let memoized = memoizedNormalizers.get(normalizer)
+	if (memoized == null) {
+		memoized = memoizeLru(normalizer, { maxSize: 1e5, getKey: (str) => str })
+		memoizedNormalizers.set(normalizer, memoized)
+	}
+	return memoized
+}
+
+export type RankingOptions = {
+	/**
+	 * Finer-grained distance for ranking terms that have the same Damerau distance to the query term, e.g. one that
+	 * makes substitutions between keyboard neighbors cheaper.
+	 */
+	weightedDistance: ((a: string, b: string) => number) | null
+	/**
+	 * Further normalizations for ranking terms, applied after the built-in ones (which lowercase and remove doubled
+	 * letters), e.g. to fold characters that the dictionary treats as related.
+	 */
+	normalizers: Normalizer[]
+	/**
+	 * How common a term is, from 0 (unknown) to 1 (the most common), which may change over time. It's weighed against
+	 * `weightedDistance` for terms that have the same Damerau distance to the query term, and very common terms are
+	 * treated as an edit closer to the query term than they are.
+	 */
+	frequency: ((term: string) => number) | null
+}
+export const defaultRankingOptions: RankingOptions = {
+	weightedDistance: null,
+	normalizers: [],
+	frequency: null,
+}
+
+/**
+ * Weight of a term's frequency against its weighted distance, such that a much more common term is preferred over one
+ * whose only advantage is a cheaper substitution (such as of a keyboard neighbor)
+ */
+const FREQUENCY_WEIGHT = 1
+
+/** Frequency from which a term is very common, and so is treated as an edit closer to the query term than it is */
+const COMMON_FREQUENCY = 0.75
+
+/**
+ * Ranks suggestion candidates in a "human-friendly" order, which is shared by all suggestion backends.
+ */
+export class Ranker {
+	#weightedDistance: RankingOptions['weightedDistance']
+	#normalizers: Normalizer[]
+	#frequency: RankingOptions['frequency']
+
+	constructor(options?: Partial<RankingOptions>) {
+		this.#weightedDistance = options?.weightedDistance ?? defaultRankingOptions.weightedDistance
+		this.#normalizers = [...normalizers, ...options?.normalizers ?? defaultRankingOptions.normalizers]
+			.map(memoizeNormalizer)
+		this.#frequency = options?.frequency ?? defaultRankingOptions.frequency
+	}
+
+	/**
+	 * Sorts terms by how good a match they are for the query term.
+	 *
+	 * @param queryTerm The term to rank against.
+	 * @param terms The terms to rank.
+	 * @returns A new array of the ranked terms.
+	 */
+	rank(queryTerm: string, terms: string[]): string[] {
+		return [...terms].sort(this.#compare(queryTerm))
+	}
+
+	#compare(queryTerm: string) {
+		return (a: string, b: string) => {
+			if (a === queryTerm) return -1
+			if (b === queryTerm) return 1
+
+			let na = a
+			let nb = b
+			let nQueryTerm = queryTerm
+
+			// prefer words that are normalized to the same thing as the query term
+			for (const normalizer of this.#normalizers) {
+				na = normalizer(na)
+				nb = normalizer(nb)
+				nQueryTerm = normalizer(nQueryTerm)
+
+				if (na === nQueryTerm && nb !== nQueryTerm) return -1
+				if (nb === nQueryTerm && na !== nQueryTerm) return 1
+			}
+
+			na = a
+			nb = b
+			nQueryTerm = queryTerm
+
+			// prefer words that have closer Demerau distance to the query term, where very common words are closer
+			const commonDiff = this.#commonness(a) - this.#commonness(b)
+			for (const normalizer of this.#normalizers) {
+				na = normalizer(na)
+				nb = normalizer(nb)
+				nQueryTerm = normalizer(nQueryTerm)
+
+				const diff = damerauDistance(na, nQueryTerm) - damerauDistance(nb, nQueryTerm) - commonDiff
+				if (diff) return diff
+			}
+
+			// prefer words that have closer weighted distance to the query term, weighed against how common they are
+			if (this.#weightedDistance != null || this.#frequency != null) {
+				const diff = this.#score(a, queryTerm) - this.#score(b, queryTerm)
+				if (diff) return diff
+			}
+
+			// prefer words that start with a substring of the query term
+			for (let i = 0; i < Math.min(a.length, b.length); ++i) {
+				const aeq = a[i] === queryTerm[i]
+				const beq = b[i] === queryTerm[i]
+
+				if (aeq && !beq) return -1
+				if (!aeq && beq) return 1
+			}
+
+			// just to ensure that the order is stable
+			return lexicographicalCompare(a, b)
+		}
+	}
+
+	/** Number of edits closer to the query term that a term is treated as being, due to being very common */
+	#commonness(term: string) {
+		return this.#frequency != null && this.#frequency(term) >= COMMON_FREQUENCY ? 1 : 0
+	}
+
+	/** Score of a term for the query term, where lower is better */
+	#score(term: string, queryTerm: string) {
+		let score = 0
+		if (this.#weightedDistance != null) {
+			score += this.#weightedDistance(this.#normalizers[0](term), this.#normalizers[0](queryTerm))
+		}
+		if (this.#frequency != null) {
+			score -= this.#frequency(term) * FREQUENCY_WEIGHT + this.#commonness(term)
+		}
+		return score
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * A file path, a URL (as a string starting with `http:`, `https:` or `file:`, or as a `URL`), or the data itself, either
+ * as bytes or as a stream of them
+ */
+export type DictionarySource = string | URL | Uint8Array | ReadableStream<Uint8Array>
+
+/** Encodings named in Hunspell's `SET` directive that `TextDecoder` knows by another label */
+const HUNSPELL_ENCODINGS: Record<string, string> = {
+	'microsoft-cp1251': 'windows-1251',
+	'tis620-2533': 'tis-620',
+}
+
+/**
+ * Opens a source of dictionary data as a stream. File paths and `file:` URLs are read from the file system, whereas
+ * other URLs are fetched.
+ *
+ * @param source The source.
+ * @returns A stream of the source's bytes.
+ */
+export async function openSource(source: DictionarySource): Promise<ReadableStream<Uint8Array>> {
+	if (source instanceof ReadableStream) {
+		return source
+	}
+	if (source instanceof Uint8Array) {
+		return ReadableStream.from([source])
+	}
+	if (typeof source === 'string' && !/^(?:https?|file):/i.test(source)) {
+		return (await Deno.open(source)).readable
+	}
+
+	const url = new URL(source)
+	if (url.protocol === 'file:') {
+		return (await Deno.open(url)).readable
+	}
+
+	const res = await fetch(url)
+	if (!res.ok || res.body == null) {
+		await res.body?.cancel()
+		throw new Error(`Failed to fetch ${url}: ${res.status} ${res.statusText}`)
+	}
+	return res.body
+}
+
+/**
+ * Reads the whole of a source as bytes.
+ *
+ * @param source The source.
+ */
+export async function readBytes(source: DictionarySource): Promise<Uint8Array> {
+	const chunks: Uint8Array[] = []
+	for await (const chunk of await openSource(source)) {
+		chunks.push(chunk)
+	}
+
+	const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+	let offset = 0
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset)
+		offset += chunk.length
+	}
+	return bytes
+}
+
+/**
+ * Detects the encoding of an .aff file from its `SET` directive, which also applies to its .dic file.
+ *
+ * @param bytes The .aff file's bytes.
+ * @returns The encoding, as a label for `TextDecoder`, or `null` if the file has no `SET` directive.
+ */
+export function detectAffEncoding(bytes: Uint8Array): string | null {
+	// the directive is ASCII, so decoding as Latin-1 finds it whatever the encoding (allowing for a UTF-8 BOM)
+	const encoding = new TextDecoder('latin1').decode(bytes).match(/^(?:\xEF\xBB\xBF)?SET[ \t]+(\S+)/m)?.[1]
+	if (encoding == null) {
+		return null
+	}
+	return HUNSPELL_ENCODINGS[encoding.toLowerCase()] ?? encoding
+}
+
+/**
+ * Reads the whole of a source as text.
+ *
+ * @param source The source.
+ * @param encoding The source's encoding.
+ */
+export async function readText(source: DictionarySource, encoding: string): Promise<string> {
+	let text = ''
+	for await (const chunk of (await openSource(source)).pipeThrough(new TextDecoderStream(encoding))) {
+		text += chunk
+	}
+	return text
+}
+
+/**
+ * Reads a source line by line, without reading it all into memory first.
+ *
+ * @param source The source.
+ * @param encoding The source's encoding.
+ * @returns The lines, without their line endings.
+ */
+export async function* readLines(source: DictionarySource, encoding: string): AsyncGenerator<string> {
+	let buffer = ''
+	for await (const chunk of (await openSource(source)).pipeThrough(new TextDecoderStream(encoding))) {
+		const lines = (buffer + chunk).split('\n')
+		buffer = lines.pop()!
+		for (const line of lines) {
+			yield line.replace(/\r$/, '')
+		}
+	}
+	if (buffer) {
+		yield buffer.replace(/\r$/, '')
+	}
+}
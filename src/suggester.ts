@@ -0,0 +1,39 @@
+import type { RankingOptions } from './ranking.ts'
+
+/**
+ * An index of words that can be queried for those within a given edit distance of a query term, for generating
+ * suggestions.
+ */
+export type Suggester = {
+	/**
+	 * Adds a word to the index.
+	 *
+	 * @param term The word to add.
+	 */
+	addWord(term: string): void
+	/**
+	 * Removes a word from the index.
+	 *
+	 * @param term The word to remove.
+	 */
+	removeWord(term: string): void
+	/**
+	 * Finds the words within a given Levenshtein distance of a query term.
+	 *
+	 * @param queryTerm The term to query.
+	 * @param maxDist The maximum distance.
+	 * @returns The words, ranked as by `rank`.
+	 */
+	query(queryTerm: string, maxDist: number): string[]
+	/**
+	 * Sorts terms by how good a match they are for the query term, using the same ordering as `query`.
+	 *
+	 * @param queryTerm The term to rank against.
+	 * @param terms The terms to rank, which need not be in the index.
+	 * @returns A new array of the ranked terms.
+	 */
+	rank(queryTerm: string, terms: string[]): string[]
+}
+
+/** Creates a suggester for the given words, which should rank words according to the given options. */
+export type SuggesterFactory = (words: string[], options: RankingOptions) => Suggester
@@ -0,0 +1,61 @@
+import Typista from './typista.ts'
+import BkTree from './bktree.ts'
+import SymSpellIndex from './symSpellIndex.ts'
+import { assertEquals } from '@std/assert'
+
+const aff = await Deno.readTextFile('./dictionaries/en_US/en_US.aff')
+const dic = await Deno.readTextFile('./dictionaries/en_US/en_US.dic')
+
+Deno.test('suggest (empty case)', async (t) => {
+	const index = new SymSpellIndex([])
+
+	await t.step('initial', () => {
+		assertEquals(index.query('hostipal', 2), [])
+	})
+
+	await t.step('suggest empty word', () => {
+		assertEquals(index.query('', 2), [])
+	})
+
+	await t.step('added word', () => {
+		index.addWord('xyz')
+		assertEquals(index.query('xy', 2), ['xyz'])
+		assertEquals(index.query('x', 2), ['xyz'])
+	})
+})
+
+Deno.test('suggest', async (t) => {
+	const words = new Typista(aff, dic).words.slice(0, 20000)
+	const index = new SymSpellIndex(words)
+	const bkTree = new BkTree([...words])
+
+	await t.step('same words as BK-Tree', () => {
+		for (const word of ['abbot', 'abot', 'abcus', 'Aaachen', 'acommodation', 'b']) {
+			for (const dist of [1, 2]) {
+				assertEquals(index.query(word, dist).toSorted(), bkTree.query(word, dist).toSorted(), `${word} ${dist}`)
+			}
+		}
+	})
+
+	await t.step('beyond prefix length', () => {
+		const index = new SymSpellIndex(['abcdefghij', 'abcdefghijkl'], { prefixLength: 4 })
+		assertEquals(index.query('abcdefghik', 1), ['abcdefghij'])
+		assertEquals(index.query('abcdefghik', 2), ['abcdefghij', 'abcdefghijkl'])
+	})
+
+	await t.step('distance capped to max edit distance', () => {
+		const index = new SymSpellIndex(['abc', 'abcdef'], { maxEditDistance: 1 })
+		assertEquals(index.query('abcd', 3), ['abc'])
+	})
+})
+
+Deno.test('removeWord', () => {
+	const index = new SymSpellIndex(['abbot', 'abbots', 'abort'])
+	index.removeWord('abbot')
+	index.removeWord('abbot')
+	index.removeWord('not a word')
+	assertEquals(index.query('abbot', 1), ['abbots'])
+
+	index.addWord('abbot')
+	assertEquals(index.query('abbot', 1), ['abbot', 'abbots'])
+})
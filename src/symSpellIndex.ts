@@ -0,0 +1,118 @@
+import { levenshteinDistance } from '@std/text/levenshtein-distance'
+import { Ranker, type RankingOptions } from './ranking.ts'
+import type { Suggester } from './suggester.ts'
+
+type SymSpellIndexOptions = RankingOptions & {
+	/** Maximum edit distance that can be queried. Greater distances are capped to it. */
+	maxEditDistance: number
+	/** Length of the start of each word that's indexed. Shorter prefixes use less memory but give more candidates. */
+	prefixLength: number
+}
+const defaultSymSpellIndexOptions: Omit<SymSpellIndexOptions, keyof RankingOptions> = {
+	maxEditDistance: 2,
+	prefixLength: 7,
+}
+
+/**
+ * A symmetric delete index, as used by SymSpell, which finds the words within an edit distance of a query term by
+ * looking up the strings obtained by deleting characters from it, having already indexed each word by the strings
+ * obtained by deleting characters from the word. It's much faster to query than a BK-Tree for small edit distances,
+ * but uses more memory.
+ *
+ * @see https://github.com/wolfgarbe/SymSpell
+ */
+export default class SymSpellIndex implements Suggester {
+	#words = new Set<string>()
+	/** Maps each string obtained by deleting characters from the prefix of a word to those words */
+	#deletes = new Map<string, string[]>()
+
+	#maxEditDistance: number
+	#prefixLength: number
+	#ranker: Ranker
+
+	constructor(words: string[], options?: Partial<SymSpellIndexOptions>) {
+		const { maxEditDistance, prefixLength, ...rankingOptions } = { ...defaultSymSpellIndexOptions, ...options }
+		this.#maxEditDistance = maxEditDistance
+		this.#prefixLength = prefixLength
+		this.#ranker = new Ranker(rankingOptions)
+
+		for (const word of words) {
+			this.addWord(word)
+		}
+	}
+
+	addWord(term: string) {
+		if (this.#words.has(term)) {
+			return
+		}
+
+		this.#words.add(term)
+		for (const del of this.#deletesOf(term.slice(0, this.#prefixLength), this.#maxEditDistance)) {
+			let words = this.#deletes.get(del)
+			if (words == null) {
+				words = []
+				this.#deletes.set(del, words)
+			}
+			words.push(term)
+		}
+	}
+
+	removeWord(term: string) {
+		if (!this.#words.delete(term)) {
+			return
+		}
+
+		for (const del of this.#deletesOf(term.slice(0, this.#prefixLength), this.#maxEditDistance)) {
+			const words = this.#deletes.get(del)!
+			if (words.length === 1) {
+				this.#deletes.delete(del)
+			} else {
+				words.splice(words.indexOf(term), 1)
+			}
+		}
+	}
+
+	query(queryTerm: string, maxDist: number): string[] {
+		const dist = Math.min(maxDist, this.#maxEditDistance)
+
+		const candidates = new Set<string>()
+		for (const del of this.#deletesOf(queryTerm.slice(0, this.#prefixLength), dist)) {
+			for (const word of this.#deletes.get(del) ?? []) {
+				candidates.add(word)
+			}
+		}
+
+		return this.rank(
+			queryTerm,
+			[...candidates].filter((word) => {
+				return Math.abs(word.length - queryTerm.length) <= dist && levenshteinDistance(word, queryTerm) <= dist
+			}),
+		)
+	}
+
+	rank(queryTerm: string, terms: string[]): string[] {
+		return this.#ranker.rank(queryTerm, terms)
+	}
+
+	/**
+	 * Gets the strings obtained by deleting up to a given number of characters from a string, including the string itself.
+	 */
+	#deletesOf(str: string, maxDeletes: number): Set<string> {
+		const deletes = new Set([str])
+		let previous = [str]
+		for (let i = 0; i < maxDeletes; ++i) {
+			const current: string[] = []
+			for (const s of previous) {
+				for (let j = 0; j < s.length; ++j) {
+					const del = s.slice(0, j) + s.slice(j + 1)
+					if (!deletes.has(del)) {
+						deletes.add(del)
+						current.push(del)
+					}
+				}
+			}
+			previous = current
+		}
+		return deletes
+	}
+}
@@ -0,0 +1,46 @@
+export type Token = {
+	word: string
+	start: number
+	end: number
+}
+
+type TokenizeOptions = {
+	/** Extra characters to treat as part of words, as given by the dictionary's `WORDCHARS` directive. */
+	wordChars: string
+}
+
+const defaultTokenizeOptions: TokenizeOptions = {
+	wordChars: '',
+}
+
+/** Apostrophes only count as word characters between two other word characters (`don't`, `l’homme`) */
+const APOSTROPHES = "'’"
+
+function escapeForCharClass(chars: string) {
+	return chars.replaceAll(/[\\\]\[^-]/g, '\\$&')
+}
+
+/**
+ * Splits prose into words with their offsets.
+ *
+ * Letters are always word characters. `WORDCHARS` letters and digits are treated the same way, whereas other
+ * `WORDCHARS` (such as `-`) and apostrophes only join word characters together, so they never start or end a token.
+ *
+ * @param text The text to tokenize.
+ * @param options Tokenization options.
+ * @returns The tokens, with `start` and `end` as UTF-16 offsets into `text`.
+ */
+export function tokenize(text: string, options?: Partial<TokenizeOptions>): Token[] {
+	const { wordChars } = { ...defaultTokenizeOptions, ...options }
+
+	const extraChars = [...new Set(wordChars)]
+	const coreChars = extraChars.filter((c) => /^[\p{L}\p{M}\p{N}]$/u.test(c)).join('')
+	const joinerChars = [...new Set([...APOSTROPHES, ...extraChars.filter((c) => !coreChars.includes(c))])].join('')
+
+	const core = `[\\p{L}\\p{M}${escapeForCharClass(coreChars)}]`
+	const joiner = `[${escapeForCharClass(joinerChars)}]`
+
+	const re = new RegExp(`${core}+(?:${joiner}${core}+)*`, 'gu')
+
+	return [...text.matchAll(re)].map((m) => ({ word: m[0], start: m.index, end: m.index + m[0].length }))
+}
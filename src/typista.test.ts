@@ -1,5 +1,8 @@
-import Typista from './typista.ts'
-import { assert, assertEquals, assertInstanceOf } from '@std/assert'
+import Typista, { type BkTreeProgress, type LoadProgress } from './typista.ts'
+import PersonalDictionary from './personalDictionary.ts'
+import SymSpellIndex from './symSpellIndex.ts'
+import LanguageModel from './languageModel.ts'
+import { assert, assertEquals, assertInstanceOf, assertRejects, assertThrows } from '@std/assert'
 
 const SKIP_SLOW_TESTS = Deno.permissions.requestSync({ name: 'env' }).state !== 'granted'
 	? true
@@ -16,6 +19,15 @@ function getInstance() {
 	return _typista
 }
 
+let _frenchTypista: Typista | null = null
+async function getFrenchInstance() {
+	_frenchTypista ??= new Typista(
+		await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.aff'),
+		await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.dic'),
+	)
+	return _frenchTypista
+}
+
 function reset(typista: Typista) {
 	typista.addWord('hospital')
 	typista.removeWord('hostipal')
@@ -123,6 +135,72 @@ Deno.test('suggest', async (t) => {
 	})
 })
 
+Deno.test('suggestDetailed', async (t) => {
+	const typista = getInstance()
+
+	await t.step('same suggestions as suggest', () => {
+		for (const word of ['hostipal', 'paris', 'fone', 'hwllo']) {
+			assertEquals(typista.suggestDetailed(word).map((x) => x.word), typista.suggest(word), word)
+		}
+	})
+
+	await t.step('distances', () => {
+		assertEquals(typista.suggestDetailed('hostipal', { limit: 1 }), [
+			{ word: 'hospital', levenshteinDistance: 2, damerauDistance: 2, confidence: 0.75, reason: 'editDistance' },
+		])
+		const the = typista.suggestDetailed('teh', { maxDist: 2 }).find((x) => x.word === 'the')!
+		assertEquals([the.levenshteinDistance, the.damerauDistance], [2, 1])
+	})
+
+	await t.step('reasons', () => {
+		const reasons = (word: string) => {
+			return Object.fromEntries(typista.suggestDetailed(word, { limit: 3 }).map((x) => [x.word, x.reason]))
+		}
+		assertEquals(reasons('paris').Paris, 'case')
+		assertEquals(reasons('ocurred').occurred, 'doubledLetter')
+		assertEquals(reasons('fone'), { phone: 'replacement', fine: 'editDistance', done: 'editDistance' })
+
+		const mapped = new Typista('MAP 1\nMAP eéèê\n', '2\nfête\nfate\n')
+		assertEquals(mapped.suggestDetailed('fete').map((x) => x.reason), ['map', 'editDistance'])
+	})
+
+	await t.step('confidence', () => {
+		const [paris] = typista.suggestDetailed('paris')
+		const [hello, hallo] = typista.suggestDetailed('hwllo')
+
+		// keyboard neighbors are more likely typos
+		assert(hello.confidence > hallo.confidence)
+		assert(paris.confidence > hello.confidence)
+		// the same edit is more significant in a shorter word
+		assert(typista.suggestDetailed('hoem', { limit: 1 })[0].confidence < hello.confidence)
+	})
+})
+
+Deno.test('case-preserving suggestions', async (t) => {
+	const typista = getInstance()
+
+	await t.step('title case', () => {
+		assertEquals(typista.suggest('Hospitl', { limit: 2 }), ['Hospital', 'Hospitals'])
+		assertEquals(typista.suggest('Recieve', { limit: 1 }), ['Receive'])
+	})
+
+	await t.step('uppercase', () => {
+		assertEquals(typista.suggest('HOSPITL', { limit: 2 }), ['HOSPITAL', 'HOSPITALS'])
+		assertEquals(typista.suggest('PARIS', { limit: 1 }), ['PARIS'])
+	})
+
+	await t.step('lowercase and mixed case keep dictionary forms', () => {
+		assertEquals(typista.suggest('paris', { limit: 2 }), ['Paris', 'parish'])
+		assertEquals(typista.suggest('hOSPITl', { limit: 1 }), ['hospital'])
+	})
+
+	await t.step('KEEPCASE', () => {
+		const typista = new Typista('KEEPCASE K\n', '2\niPod/K\npod\n')
+		assertEquals(typista.suggest('IPOD'), ['iPod', 'POD'])
+		assertEquals(typista.suggest('Ipod'), ['iPod', 'Pod'])
+	})
+})
+
 Deno.test('Damerau distance gives single-transposition first', () => {
 	const typista = getInstance()
 
@@ -157,16 +235,19 @@ Deno.test('suggestions (tests ported from Typo.js)', async (t) => {
 
 	await t.step("Requesting more suggestions than will be returned doesn't break anything.", () => {
 		assertEquals(
-			typista.suggest('spartang', { limit: 50 }),
+			// split suggestions didn't exist in Typo.js (see "split and join suggestions"), and `sparring` and
+			// `spatting` rank ahead of other words at the same distance as they substitute keyboard neighbors (see
+			// "keyboard-aware ranking")
+			typista.suggest('spartang', { limit: 50 }).filter((x) => !x.includes(' ')),
 			[
 				'spartan',
 				'Spartan',
 				'Spartans',
+				'sparring',
+				'spatting',
 				'sparking',
 				'sparling',
-				'sparring',
 				'sparing',
-				'spatting',
 				'sporting',
 				'spurting',
 				'sprang',
@@ -179,3 +260,1060 @@ Deno.test('suggestions (tests ported from Typo.js)', async (t) => {
 		assertEquals(typista.suggest('spartang', { limit: 1 }), ['spartan'])
 	})
 })
+
+Deno.test('checkText', async (t) => {
+	const typista = getInstance()
+
+	await t.step('no misspellings', () => {
+		assertEquals(typista.checkText("The hospital isn't far, it's on the 21st floor."), [])
+	})
+
+	await t.step('misspellings with offsets', () => {
+		const text = 'The hostipal is hear.  Freinds!'
+		const misspellings = typista.checkText(text)
+
+		assertEquals(misspellings, [
+			{ word: 'hostipal', start: 4, end: 12 },
+			{ word: 'Freinds', start: 23, end: 30 },
+		])
+		for (const { word, start, end } of misspellings) {
+			assertEquals(text.slice(start, end), word)
+		}
+	})
+
+	await t.step('only misspelled parts of hyphenated words are reported', () => {
+		assertEquals(typista.checkText('a well-known hostipal-wing'), [
+			{ word: 'hostipal', start: 13, end: 21 },
+		])
+	})
+
+	await t.step('non-word characters', () => {
+		assertEquals(typista.checkText('-- (hostipal) --'), [{ word: 'hostipal', start: 4, end: 12 }])
+	})
+
+	await t.step('with suggestions', () => {
+		assertEquals(typista.checkText('my hostipal', { suggest: { limit: 1 } }), [
+			{ word: 'hostipal', start: 3, end: 11, suggestions: ['hospital'] },
+		])
+	})
+})
+
+Deno.test('split and join suggestions', async (t) => {
+	const typista = getInstance()
+
+	await t.step('split', () => {
+		assert(typista.suggest('alot').includes('a lot'))
+		assert(typista.suggest('infact').includes('in fact'))
+		assertEquals(typista.suggest('thankyou'), ['thank you'])
+		assertEquals(typista.suggest('Atleast', { limit: 1 }), ['At least'])
+		assertEquals(typista.suggestDetailed('eachother')[0].reason, 'split')
+	})
+
+	await t.step('splits rank after dictionary words at the same distance', () => {
+		const suggestions = typista.suggest('spartang', { limit: 50 })
+		assertEquals(suggestions.slice(0, 5), ['spartan', 'Spartan', 'Spartans', 'spar tang', 'sparring'])
+	})
+
+	await t.step('correct words are not split', () => {
+		assert(!typista.suggest('cannot').includes('can not'))
+	})
+
+	await t.step('single-character second parts are not split off', () => {
+		assert(!typista.suggest('infor').includes('info r'))
+	})
+
+	await t.step('split points respect WORDCHARS and BREAK', () => {
+		const typista = new Typista('WORDCHARS -\nBREAK 1\nBREAK _\n', '3\nfoo\nbar\nbar-\n')
+		assertEquals(typista.suggest('foobar'), ['foo bar'])
+		assertEquals(typista.suggest('bar-foo'), [])
+		assertEquals(typista.suggest('foo_barbar'), [])
+	})
+
+	await t.step('join', () => {
+		const text = 'some thing in the infor mation,\nsome\nthing'
+		assertEquals(typista.checkText(text, { joinWords: true }), [
+			{ word: 'some thing', start: 0, end: 10, suggestions: ['something'] },
+			{ word: 'infor mation', start: 18, end: 30, suggestions: ['information'] },
+		])
+		assertEquals(typista.checkText(text).map((m) => m.word), ['infor', 'mation'])
+	})
+})
+
+Deno.test('suggestions from REP replacement table', async (t) => {
+	const typista = getInstance()
+
+	await t.step('beyond max edit distance', () => {
+		assertEquals(typista.suggest('nashunal')[0], 'national')
+	})
+
+	await t.step('ranked ahead of edit distance suggestions', () => {
+		assertEquals(typista.suggest('fone', { limit: 3 }), ['phone', 'fine', 'done'])
+		assertEquals(typista.suggest('kwick', { limit: 2 }), ['quick', 'knick'])
+	})
+})
+
+Deno.test('keyboard-aware ranking', async (t) => {
+	await t.step('default QWERTY layout', () => {
+		const typista = getInstance()
+		assertEquals(typista.suggest('hwllo', { limit: 1 }), ['hello'])
+		assertEquals(typista.suggest('hrllo', { limit: 1 }), ['hello'])
+	})
+
+	await t.step('neighbor substitutions rank ahead of others at the same distance', () => {
+		// both are two substitutions away from `spartang`, but `t` → `r` is a QWERTY neighbor and `t` → `k` isn't
+		const dicData = '2\nsparking\nsparring\n'
+		assertEquals(new Typista('', dicData).suggest('spartang'), ['sparring', 'sparking'])
+		// with no neighbors, ties keep dictionary order
+		assertEquals(new Typista('', dicData, { keyboardLayout: '' }).suggest('spartang'), ['sparking', 'sparring'])
+	})
+
+	await t.step('layout from options', () => {
+		const typista = new Typista('', '2\nbat\nbet\n', { keyboardLayout: 'azertyuiop|qsdfghjklm|wxcvbn|qa' })
+		assertEquals(typista.suggest('bqt'), ['bat', 'bet'])
+	})
+})
+
+Deno.test('frequency-weighted ranking', async (t) => {
+	const dicData = '4\ncap\ncar\ncat\nbat\n'
+
+	await t.step('equally close words', () => {
+		assertEquals(new Typista('', dicData).suggest('caz'), ['cap', 'car', 'cat'])
+		const typista = new Typista('', dicData, { frequencies: { cat: 100, car: 10 } })
+		assertEquals(typista.suggest('caz'), ['cat', 'car', 'cap'])
+	})
+
+	await t.step('weighed against keyboard-aware distance', () => {
+		// `t` is a keyboard neighbor of `y` but `r` isn't
+		const equallyCommon = new Typista('', dicData, { frequencies: { car: 10, cat: 10 } })
+		assertEquals(equallyCommon.suggest('cay', { limit: 1 }), ['cat'])
+		const muchMoreCommon = new Typista('', dicData, { frequencies: { car: 1000, cat: 1 } })
+		assertEquals(muchMoreCommon.suggest('cay', { limit: 1 }), ['car'])
+	})
+
+	await t.step('weighed against Damerau distance', () => {
+		// `bat` is two edits away from `caz`, and the others one edit
+		const veryCommon = new Typista('', dicData, { frequencies: { bat: 1000, cat: 1 } })
+		assertEquals(veryCommon.suggest('caz', { maxDist: 2 }), ['bat', 'cat', 'cap', 'car'])
+		const fairlyCommon = new Typista('', dicData, { frequencies: { bat: 10, cat: 1000 } })
+		assertEquals(fairlyCommon.suggest('caz', { maxDist: 2 }), ['cat', 'cap', 'car', 'bat'])
+	})
+
+	await t.step('added at runtime', () => {
+		const typista = new Typista('', dicData)
+		assertEquals(typista.suggest('caz'), ['cap', 'car', 'cat'])
+		typista.addFrequencies({ cat: 10 })
+		assertEquals(typista.suggest('caz'), ['cat', 'cap', 'car'])
+		typista.addFrequencies({ car: 100 })
+		assertEquals(typista.suggest('caz'), ['car', 'cat', 'cap'])
+		typista.addFrequencies({ cat: 1000 })
+		assertEquals(typista.suggest('caz'), ['cat', 'car', 'cap'])
+	})
+
+	await t.step('frequency list file', async () => {
+		const typista = await Typista.load({
+			aff: new Uint8Array(),
+			dic: new TextEncoder().encode(dicData),
+			frequencies: new TextEncoder().encode('cat 100\r\ncar 10\n\n'),
+		})
+		assertEquals(typista.suggest('caz'), ['cat', 'car', 'cap'])
+	})
+
+	await t.step('recorded corrections', () => {
+		const typista = new Typista('', dicData)
+		typista.recordCorrection('caz', 'cat')
+		assertEquals(typista.suggest('caz'), ['cat', 'cap', 'car'])
+
+		typista.recordCorrection('CAZ', 'car', 2)
+		typista.recordCorrection('caz', 'bat')
+		typista.recordCorrection('caz', 'not a word')
+		assertEquals(typista.suggest('Caz'), ['Car', 'Cat', 'Bat', 'Cap'])
+		assertEquals(typista.suggestDetailed('caz').map((x) => x.reason), [
+			'correction',
+			'correction',
+			'correction',
+			'editDistance',
+		])
+	})
+})
+
+Deno.test('language model', async (t) => {
+	const dicData = '12\nI\nwant\nto\nby\nbuy\nbay\na\ncar\ncame\nfrom\nform\nthe\nstore\n'
+	const counts = `
+i 1000
+want 500
+to 3000
+by 400
+buy 300
+a 5000
+car 200
+came 200
+from 800
+form 100
+the 6000
+store 150
+i want 200
+want to 300
+to buy 120
+buy a 80
+by a 20
+a car 60
+came from 90
+from the 400
+form the 5
+want to buy 50
+to buy a 30
+came from the 40
+from the store 20
+`
+	const typista = new Typista('', dicData, { languageModel: LanguageModel.parse(counts) })
+
+	await t.step('suggestions in context', () => {
+		assertEquals(typista.suggest('fom', { limit: 2 }), ['form', 'from'])
+		assertEquals(typista.suggest('fom', { limit: 2, context: { before: 'I came', after: 'the store' } }), [
+			'from',
+			'form',
+		])
+		assertEquals(typista.suggest('Fom', { limit: 2, context: { before: '', after: 'the store' } }), [
+			'From',
+			'Form',
+		])
+		// the context is ignored without a language model
+		assertEquals(
+			new Typista('', dicData).suggest('fom', { limit: 2, context: { before: 'I came', after: 'the store' } }),
+			['form', 'from'],
+		)
+	})
+
+	await t.step('real-word errors', () => {
+		const text = 'I want to by a car. I came form the store.'
+		assertEquals(typista.checkText(text), [])
+		assertEquals(typista.checkText(text, { realWordErrors: true }), [
+			{ word: 'by', start: 10, end: 12, suggestions: ['buy'] },
+			{ word: 'form', start: 27, end: 31, suggestions: ['from'] },
+		])
+		assertEquals(typista.checkText('I want to buy a car. I came from the store.', { realWordErrors: true }), [])
+		// context doesn't extend beyond the sentence
+		assertEquals(typista.checkText('I want to. By a car.', { realWordErrors: true }), [])
+	})
+
+	await t.step('misspellings suggested in context', () => {
+		assertEquals(typista.checkText('I came fom the store', { suggest: { limit: 2 } }), [
+			{ word: 'fom', start: 7, end: 10, suggestions: ['from', 'form'] },
+		])
+	})
+
+	await t.step('language model file', async () => {
+		const typista = await Typista.load({
+			aff: new Uint8Array(),
+			dic: new TextEncoder().encode(dicData),
+			languageModel: new TextEncoder().encode(counts),
+		})
+		assertEquals(typista.checkText('I want to by a car.', { realWordErrors: true }).map((x) => x.word), ['by'])
+	})
+})
+
+Deno.test('MAP related characters', async (t) => {
+	const typista = new Typista('MAP 2\nMAP eéèê\nMAP ß(ss)\n', '4\nélève\nfête\nfate\nstraße\n')
+
+	await t.step('beyond max edit distance', () => {
+		assertEquals(typista.suggest('eleve'), ['élève'])
+	})
+
+	await t.step('multi-character sequences', () => {
+		assertEquals(typista.suggest('strasse'), ['straße'])
+	})
+
+	await t.step('ranked ahead of other edits', () => {
+		assertEquals(typista.suggest('fete'), ['fête', 'fate'])
+	})
+
+	await t.step('separate for each instance', () => {
+		assertEquals(new Typista('MAP 1\nMAP ae\n', '2\nbat\nbit\n').suggest('bet'), ['bat', 'bit'])
+		assertEquals(new Typista('MAP 1\nMAP eu\n', '2\nbat\nbut\n').suggest('bet'), ['but', 'bat'])
+	})
+})
+
+Deno.test({
+	name: 'MAP related characters (fr_FR)',
+	async fn() {
+		const typista = await getFrenchInstance()
+
+		assertEquals(typista.suggest('hopital')[0], 'hôpital')
+		assertEquals(typista.suggest('garcon')[0], 'garçon')
+		assertEquals(new Set(typista.suggest('eleve').slice(0, 2)), new Set(['élève', 'élevé']))
+	},
+	ignore: SKIP_SLOW_TESTS,
+})
+
+Deno.test('FORBIDDENWORD', async (t) => {
+	const typista = new Typista(
+		'FORBIDDENWORD !\nSFX S Y 1\nSFX S 0 s .\n',
+		'4\nfoo/S\nbar/S!\nbaz/!\nBaz\n',
+	)
+
+	await t.step('check', () => {
+		assertEquals(typista.check('foo'), true)
+		assertEquals(typista.check('foos'), true)
+		assertEquals(typista.check('bar'), false)
+		assertEquals(typista.checkExact('bar'), false)
+	})
+
+	await t.step('affixed forms inherit the flag', () => {
+		assertEquals(typista.check('bars'), false)
+	})
+
+	await t.step('not accepted as a capitalization variant', () => {
+		assertEquals(typista.check('Baz'), true)
+		assertEquals(typista.check('baz'), false)
+	})
+
+	await t.step('suggest', () => {
+		assertEquals(typista.suggest('fo'), ['foo'])
+		assertEquals(typista.suggest('baz'), ['Baz'])
+		assertEquals(typista.suggest('bar'), [])
+	})
+})
+
+Deno.test('NOSUGGEST', async (t) => {
+	const typista = getInstance()
+
+	await t.step('check', () => {
+		assertEquals(typista.check('bullshit'), true)
+		assertEquals(typista.check('bullshits'), true)
+	})
+
+	await t.step('suggest', () => {
+		const suggestions = typista.suggest('bullshitt', { limit: undefined })
+		assert(!suggestions.includes('bullshit'))
+		assert(!suggestions.includes('bullshits'))
+	})
+
+	await t.step('added words', () => {
+		const typista = new Typista('NOSUGGEST !\n', '2\nfoo/!\nfood\n')
+		typista.initBkTree()
+		typista.addWord('fool', [['!']])
+
+		assertEquals(typista.check('foo'), true)
+		assertEquals(typista.check('fool'), true)
+		assertEquals(typista.suggest('foor'), ['food'])
+	})
+})
+
+Deno.test('CIRCUMFIX', async (t) => {
+	// https://github.com/hunspell/hunspell/blob/master/tests/circumfix.aff
+	const aff = [
+		'CIRCUMFIX X',
+		'PFX A Y 1',
+		'PFX A 0 leg/X .',
+		'PFX B Y 1',
+		'PFX B 0 legesleg/X .',
+		'SFX C Y 3',
+		'SFX C 0 obb . +COMPARATIVE',
+		'SFX C 0 obb/AX . +SUPERLATIVE',
+		'SFX C 0 obb/BX . +SUPERSUPERLATIVE',
+	].join('\n')
+
+	await t.step('paired prefix and suffix', () => {
+		const typista = new Typista(aff, '1\nnagy/C\n')
+
+		for (const word of ['nagy', 'nagyobb', 'legnagyobb', 'legeslegnagyobb']) {
+			assertEquals(typista.check(word), true, word)
+		}
+		for (const word of ['legnagy', 'legeslegnagy', 'legeslegnagyobbobb']) {
+			assertEquals(typista.check(word), false, word)
+		}
+	})
+
+	await t.step('half forms are rejected', () => {
+		const typista = new Typista(aff, '1\nkicsi/A\n')
+
+		assertEquals(typista.check('kicsi'), true)
+		assertEquals(typista.check('legkicsi'), false)
+	})
+
+	await t.step('fr_FR', async () => {
+		const typista = new Typista(
+			await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.aff'),
+			"2\nest/c'\nétait/c=\n",
+		)
+
+		// `c'` is a regular prefix, whereas `c=` is the same prefix with the `CIRCUMFIX` flag
+		assertEquals(typista.check("c'est"), true)
+		assertEquals(typista.check("c'était"), false)
+		assertEquals(typista.check('était'), true)
+	})
+})
+
+Deno.test('ICONV and OCONV', async (t) => {
+	const typista = new Typista(
+		await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.aff'),
+		"2\nélève/S.\nhomme/L'\n",
+	)
+
+	await t.step('input conversion', () => {
+		const decomposed = 'e\u0301le\u0300ve'
+		assertEquals(typista.check(decomposed), true)
+		assertEquals(typista.suggest(decomposed + 's', { limit: 1 }), ['élèves'])
+	})
+
+	await t.step('output conversion', () => {
+		assertEquals(typista.suggest("l'home", { limit: 1 }), ['l’homme'])
+	})
+
+	await t.step('output can be passed back in as input', () => {
+		assertEquals(typista.check("l'homme"), true)
+		assertEquals(typista.check('l’homme'), true)
+		assertEquals(typista.suggest('l’home', { limit: 1 }), ['l’homme'])
+	})
+})
+
+Deno.test('flag-based compounding', async (t) => {
+	const dic = (...words: string[]) => [words.length, ...words].join('\n')
+
+	await t.step('COMPOUNDFLAG', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nCOMPOUNDMIN 2\n', dic('foo/X', 'bar/X', 'baz'))
+
+		for (const word of ['foo', 'foobar', 'barfoo', 'foobarfoo', 'foofoo']) {
+			assertEquals(typista.check(word), true, word)
+		}
+		for (const word of ['foobaz', 'bazfoo', 'fooba', 'foob']) {
+			assertEquals(typista.check(word), false, word)
+		}
+	})
+
+	await t.step('COMPOUNDMIN', () => {
+		assertEquals(new Typista('COMPOUNDFLAG X\n', dic('ab/X', 'cd/X')).check('abcd'), false)
+		assertEquals(new Typista('COMPOUNDFLAG X\nCOMPOUNDMIN 2\n', dic('ab/X', 'cd/X')).check('abcd'), true)
+	})
+
+	await t.step('COMPOUNDBEGIN, COMPOUNDMIDDLE and COMPOUNDEND', () => {
+		const typista = new Typista(
+			'COMPOUNDBEGIN B\nCOMPOUNDMIDDLE M\nCOMPOUNDEND E\n',
+			dic('haus/B', 'schloss/M', 'tür/E'),
+		)
+
+		for (const word of ['haustür', 'hausschlosstür']) {
+			assertEquals(typista.check(word), true, word)
+		}
+		for (const word of ['türhaus', 'schlosstür', 'hausschloss', 'haustürschloss']) {
+			assertEquals(typista.check(word), false, word)
+		}
+	})
+
+	await t.step('ONLYINCOMPOUND', () => {
+		const typista = new Typista(
+			'COMPOUNDFLAG X\nCOMPOUNDMIN 1\nONLYINCOMPOUND O\n',
+			dic('arbeit/X', 's/XO', 'platz/X'),
+		)
+
+		assertEquals(typista.check('arbeitsplatz'), true)
+		assertEquals(typista.check('s'), false)
+	})
+
+	await t.step('affixed forms', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nSFX S Y 1\nSFX S 0 s .\n', dic('foo/XS', 'bar/X'))
+
+		assertEquals(typista.check('barfoos'), true)
+	})
+
+	await t.step('affixes inside compounds', () => {
+		const aff = 'COMPOUNDFLAG X\nSFX S Y 1\nSFX S 0 s .\nPFX U Y 1\nPFX U 0 un .\n'
+
+		for (const affixExpansion of ['eager', 'lazy'] as const) {
+			const typista = new Typista(aff, dic('cat/XSU', 'dog/XSU'), { affixExpansion })
+
+			for (const word of ['catdogs', 'uncatdog']) {
+				assertEquals(typista.check(word), true, `${word} (${affixExpansion})`)
+			}
+			for (const word of ['catsdog', 'catundog', 'catsdogs']) {
+				assertEquals(typista.check(word), false, `${word} (${affixExpansion})`)
+			}
+		}
+	})
+
+	await t.step('COMPOUNDPERMITFLAG and COMPOUNDFORBIDFLAG', () => {
+		const typista = new Typista(
+			'COMPOUNDFLAG X\nCOMPOUNDPERMITFLAG P\nCOMPOUNDFORBIDFLAG F\nSFX S Y 1\nSFX S 0 s/P .\nSFX E Y 1\nSFX E 0 er/F .\n',
+			dic('arbeit/XSE', 'platz/X'),
+		)
+
+		assertEquals(typista.check('arbeitsplatz'), true)
+		assertEquals(typista.check('arbeiter'), true)
+		assertEquals(typista.check('platzarbeiter'), false)
+	})
+
+	await t.step('COMPOUNDWORDMAX', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nCOMPOUNDWORDMAX 2\n', dic('foo/X', 'bar/X'))
+
+		assertEquals(typista.check('foobar'), true)
+		assertEquals(typista.check('foobarfoo'), false)
+	})
+
+	await t.step('CHECKCOMPOUNDDUP', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nCHECKCOMPOUNDDUP\n', dic('foo/X', 'bar/X'))
+
+		assertEquals(typista.check('foobarfoo'), true)
+		assertEquals(typista.check('foofoo'), false)
+	})
+
+	await t.step('CHECKCOMPOUNDCASE', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nCHECKCOMPOUNDCASE\n', dic('foo/X', 'Bar/X'))
+
+		assertEquals(typista.check('Barfoo'), true)
+		assertEquals(typista.check('fooBar'), false)
+	})
+
+	await t.step('CHECKCOMPOUNDTRIPLE', () => {
+		const words = dic('schiff/X', 'fahrt/X', 'bahn/X')
+
+		assertEquals(new Typista('COMPOUNDFLAG X\n', words).check('schifffahrt'), true)
+		assertEquals(new Typista('COMPOUNDFLAG X\nCHECKCOMPOUNDTRIPLE\n', words).check('schifffahrt'), false)
+		assertEquals(new Typista('COMPOUNDFLAG X\nCHECKCOMPOUNDTRIPLE\n', words).check('schiffbahn'), true)
+	})
+
+	await t.step('CHECKCOMPOUNDREP', () => {
+		const typista = new Typista(
+			'COMPOUNDFLAG X\nCHECKCOMPOUNDREP\nREP 1\nREP r z\n',
+			dic('foo/X', 'bar/X', 'foobaz'),
+		)
+
+		assertEquals(typista.check('barfoo'), true)
+		assertEquals(typista.check('foobar'), false)
+
+		const anchored = new Typista(
+			'COMPOUNDFLAG X\nCHECKCOMPOUNDREP\nREP 1\nREP r$ z\n',
+			dic('foo/X', 'bar/X', 'foobaz', 'bazfoo'),
+		)
+
+		assertEquals(anchored.check('barfoo'), true)
+		assertEquals(anchored.check('foobar'), false)
+	})
+
+	await t.step('many ways of splitting', () => {
+		const typista = new Typista('COMPOUNDFLAG X\nCOMPOUNDMIN 1\n', dic('a/X', 'aa/X'))
+
+		assertEquals(typista.check('a'.repeat(60)), true)
+		assertEquals(typista.check('a'.repeat(60) + 'b'), false)
+	})
+
+	await t.step('CHECKCOMPOUNDPATTERN', () => {
+		const typista = new Typista(
+			'COMPOUNDFLAG X\nCHECKCOMPOUNDPATTERN 1\nCHECKCOMPOUNDPATTERN o b\n',
+			dic('foo/X', 'bar/X'),
+		)
+
+		assertEquals(typista.check('barfoo'), true)
+		assertEquals(typista.check('foobar'), false)
+	})
+})
+
+Deno.test('BREAK', async (t) => {
+	await t.step('default patterns', () => {
+		const typista = getInstance()
+
+		for (
+			const word of ['well-known', 'Well-known', 'hospital-wing', 'well-known-hospital', '-hospital', 'hospital-']
+		) {
+			assertEquals(typista.check(word), true, word)
+		}
+		for (const word of ['hostipal-wing', 'hospital-wingg', '-', '--']) {
+			assertEquals(typista.check(word), false, word)
+		}
+	})
+
+	await t.step('too many breaks', () => {
+		const typista = getInstance()
+
+		assertEquals(typista.check(Array(9).fill('a').join('-')), true)
+		assertEquals(typista.check(Array(12).fill('a').join('-')), false)
+	})
+
+	await t.step('patterns from .aff file', () => {
+		const dic = '2\nfoo\nbar\n'
+
+		assertEquals(new Typista('BREAK 0\n', dic).check('foo-bar'), false)
+		assertEquals(new Typista('BREAK 1\nBREAK --\n', dic).check('foo-bar'), false)
+		assertEquals(new Typista('BREAK 1\nBREAK --\n', dic).check('foo--bar'), true)
+		assertEquals(new Typista('BREAK 1\nBREAK -\n', dic).check('-foo'), false)
+	})
+})
+
+Deno.test('snapshot', async (t) => {
+	await t.step('round trip', () => {
+		const typista = getInstance()
+		const restored = Typista.fromSnapshot(typista.serialize())
+
+		assertEquals(restored.words, typista.words)
+		for (const word of ['hospital', 'hostipal', 'Hospitals', '21st', '11th', '1th', 'well-known', 'hwllo']) {
+			assertEquals(restored.check(word), typista.check(word), word)
+			assertEquals(restored.suggest(word), typista.suggest(word), word)
+		}
+	})
+
+	await t.step('.aff file tables', () => {
+		const typista = new Typista(
+			[
+				'COMPOUNDFLAG X',
+				'CHECKCOMPOUNDDUP',
+				'BREAK 1',
+				'BREAK _',
+				'MAP 1',
+				'MAP eé',
+				'OCONV 1',
+				"OCONV ' ’",
+				'SFX S Y 1',
+				'SFX S y ies [^aeiou]y',
+				'PFX U Y 1',
+				'PFX U 0 un .',
+			].join('\n'),
+			"5\nfoo/X\nbar/X\nparty/SU\nélève\nl'élève\n",
+		)
+		const restored = Typista.fromSnapshot(typista.serialize())
+
+		for (const word of ['foobar', 'foofoo', 'foo_bar', 'parties', 'unparty', 'eleve', "l'eleve"]) {
+			assertEquals(restored.check(word), typista.check(word), word)
+			assertEquals(restored.suggest(word), typista.suggest(word), word)
+		}
+	})
+
+	await t.step('unsupported version', () => {
+		assertThrows(() => Typista.fromSnapshot(JSON.stringify({ version: 0 })), Error, 'Unsupported snapshot version')
+	})
+})
+
+Deno.test({
+	name: 'lazy affix expansion (dictionary-wide)',
+	async fn(t) {
+		const eager = getInstance()
+		const lazy = new Typista(aff, dic, { affixExpansion: 'lazy' })
+
+		await t.step('same results as eager expansion', () => {
+			const words = eager.words
+			for (let i = 0; i < words.length; i += 50) {
+				for (const word of [words[i], `${words[i]}s`, words[i].slice(1), words[i].toUpperCase()]) {
+					assertEquals(lazy.check(word), eager.check(word), word)
+				}
+			}
+		})
+
+		await t.step('words', () => {
+			assertEquals(new Set(lazy.words), new Set(eager.words))
+		})
+
+		await t.step('table size', async () => {
+			const eager = await getFrenchInstance()
+			const lazy = new Typista(
+				await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.aff'),
+				await Deno.readTextFile('./dictionaries/fr_FR/fr_FR.dic'),
+				{ affixExpansion: 'lazy' },
+			)
+			assert(Object.keys(lazy.dictionaryTable).length * 10 < Object.keys(eager.dictionaryTable).length)
+		})
+	},
+	ignore: SKIP_SLOW_TESTS,
+})
+
+Deno.test('lazy affix expansion', async (t) => {
+	const aff = [
+		'PFX U Y 1',
+		'PFX U 0 un .',
+		'SFX S Y 2',
+		'SFX S y ies [^aeiou]y',
+		'SFX S 0 s [^y]',
+		'SFX D Y 1',
+		'SFX D 0 ed/S .',
+	].join('\n')
+	const dic = '5\nhappy/US\nhospital/S\nwork/UD\nfoo\nhelp/D\n'
+	const eager = new Typista(aff, dic)
+	const lazy = new Typista(aff, dic, { affixExpansion: 'lazy' })
+
+	await t.step('same results as eager expansion', () => {
+		for (const word of eager.words.flatMap((word) => [word, `${word}s`, word.slice(1), word.toUpperCase()])) {
+			assertEquals(lazy.check(word), eager.check(word), word)
+		}
+		for (const word of ['unhappies', 'unhospital', 'unworkeds', 'helpeds', 'foos', 'happys']) {
+			assertEquals(lazy.check(word), eager.check(word), word)
+		}
+	})
+
+	await t.step('words', () => {
+		assertEquals(new Set(lazy.words), new Set(eager.words))
+		assertEquals(Object.keys(lazy.dictionaryTable), ['happy', 'hospital', 'work', 'foo', 'help'])
+	})
+
+	await t.step('NEEDAFFIX and CIRCUMFIX', () => {
+		const aff = [
+			'NEEDAFFIX X',
+			'CIRCUMFIX Y',
+			'PFX A Y 1',
+			'PFX A 0 leg/Y .',
+			'SFX B Y 1',
+			'SFX B 0 obb/Y .',
+			'SFX S Y 1',
+			'SFX S 0 s .',
+		].join('\n')
+		const dic = '2\nnagy/AB\nfoo/XS\n'
+		const eager = new Typista(aff, dic)
+		const lazy = new Typista(aff, dic, { affixExpansion: 'lazy' })
+
+		for (const word of ['nagy', 'legnagyobb', 'legnagy', 'nagyobb', 'foo', 'foos']) {
+			assertEquals(lazy.check(word), eager.check(word), word)
+		}
+		assertEquals(Object.keys(lazy.dictionaryTable), ['nagy'])
+	})
+
+	await t.step('added and removed words', () => {
+		lazy.removeWord('hospitals')
+		assertEquals(lazy.check('hospitals'), false)
+		assertEquals(lazy.check('hospital'), true)
+		assert(!lazy.words.includes('hospitals'))
+
+		lazy.addWord('hospitals')
+		assertEquals(lazy.check('hospitals'), true)
+
+		lazy.removeWord('foo')
+		assertEquals(lazy.check('foo'), false)
+		assert(!('foo' in lazy.dictionaryTable))
+		lazy.addWord('foo')
+	})
+
+	await t.step('suggest', () => {
+		for (const word of ['hospitl', 'unhapy', 'wroked', 'helpd']) {
+			assertEquals(lazy.suggest(word), eager.suggest(word), word)
+		}
+	})
+
+	await t.step('snapshot', () => {
+		const restored = Typista.fromSnapshot(lazy.serialize())
+
+		for (const word of ['hospital', 'hospitals', 'unworked', 'hospitl', 'Hospitals']) {
+			assertEquals(restored.check(word), lazy.check(word), word)
+			assertEquals(restored.suggest(word), lazy.suggest(word), word)
+		}
+	})
+})
+
+Deno.test('analyze and stem', async (t) => {
+	const typista = getInstance()
+
+	await t.step('affixed forms', () => {
+		assertEquals(typista.analyze('hospitals'), [{ stem: 'hospital', prefixes: [], suffixes: ['S'] }])
+		assertEquals(typista.analyze('unhappiness'), [
+			{ stem: 'happiness', prefixes: ['U'], suffixes: [] },
+			{ stem: 'happy', prefixes: ['U'], suffixes: ['P'] },
+		])
+	})
+
+	await t.step('stems', () => {
+		assertEquals(typista.analyze('hospital'), [{ stem: 'hospital', prefixes: [], suffixes: [] }])
+		assertEquals(typista.stem('building'), ['building', 'build'])
+	})
+
+	await t.step('capitalization variants', () => {
+		assertEquals(typista.stem('Hospitals'), ['hospital'])
+		assertEquals(typista.stem('HOSPITALIZED'), ['hospitalize'])
+	})
+
+	await t.step('unknown words', () => {
+		assertEquals(typista.analyze('hostipal'), [])
+		assertEquals(typista.stem('hostipals'), [])
+	})
+
+	await t.step('added words', () => {
+		typista.addWord('frobnicate')
+		assertEquals(typista.analyze('frobnicate'), [{ stem: 'frobnicate', prefixes: [], suffixes: [] }])
+		typista.removeWord('frobnicate')
+	})
+
+	await t.step('continuation classes and NEEDAFFIX', () => {
+		const aff = [
+			'NEEDAFFIX X',
+			'PFX A Y 1',
+			'PFX A 0 re .',
+			'SFX B Y 1',
+			'SFX B 0 able/C .',
+			'SFX C Y 1',
+			'SFX C 0 s .',
+		].join('\n')
+		const typista = new Typista(aff, '2\nwork/AB\nfoo/XB\n')
+
+		assertEquals(typista.analyze('reworkables'), [{ stem: 'work', prefixes: ['A'], suffixes: ['B', 'C'] }])
+		assertEquals(typista.analyze('foo'), [])
+		assertEquals(typista.analyze('fooable'), [{ stem: 'foo', prefixes: [], suffixes: ['B'] }])
+	})
+})
+
+Deno.test('generate', async (t) => {
+	const typista = getInstance()
+
+	await t.step("stem's own flags", () => {
+		assertEquals(typista.generate('hospital'), ['hospital', "hospital's", 'hospitals'])
+	})
+
+	await t.step('given flags', () => {
+		assertEquals(typista.generate('frobnicate', 'DSG'), [
+			'frobnicate',
+			'frobnicated',
+			'frobnicates',
+			'frobnicating',
+		])
+		assertEquals(typista.check('frobnicated'), false)
+	})
+
+	await t.step('cross-product and continuation classes', () => {
+		const aff = [
+			'NEEDAFFIX X',
+			'PFX A Y 1',
+			'PFX A 0 re .',
+			'SFX B Y 1',
+			'SFX B 0 able/C .',
+			'SFX C Y 1',
+			'SFX C 0 s .',
+		].join('\n')
+		const typista = new Typista(aff, '1\nwork/AB\n')
+
+		assertEquals(typista.generate('work'), [
+			'work',
+			'rework',
+			'reworkable',
+			'reworkables',
+			'workable',
+			'workables',
+		])
+		assertEquals(typista.generate('foo', 'XB'), ['fooable', 'fooables'])
+	})
+
+	await t.step('unknown stem without flags', () => {
+		assertEquals(typista.generate('frobnicate'), ['frobnicate'])
+	})
+})
+
+Deno.test('personal dictionaries', async (t) => {
+	const typista = getInstance()
+	const { base, organization, user } = typista.personalDictionaries
+
+	await t.step('added words', () => {
+		user.add('frobnicate')
+		assertEquals(typista.check('frobnicate'), true)
+		assertEquals(typista.check('frobnicates'), false)
+		assertEquals(typista.suggest('frobnicat', { limit: 1 }), ['frobnicate'])
+	})
+
+	await t.step('model words', () => {
+		user.add('frobnicate', 'create')
+		assertEquals(typista.check('frobnicates'), true)
+		assertEquals(typista.check('frobnicated'), true)
+	})
+
+	await t.step('ignored words', () => {
+		organization.ignore('hospital')
+		assertEquals(typista.check('hospital'), false)
+		assertEquals(typista.check('hospitals'), true)
+		assert(!typista.suggest('hospitl').includes('hospital'))
+	})
+
+	await t.step('precedence', () => {
+		base.add('frobnicate')
+		user.ignore('frobnicate')
+		assertEquals(typista.check('frobnicate'), false)
+
+		user.add('hospital')
+		assertEquals(typista.check('hospital'), true)
+	})
+
+	await t.step('reset', () => {
+		for (const dictionary of [base, organization, user]) {
+			dictionary.clear()
+		}
+		assertEquals(typista.check('hospital'), true)
+		assertEquals(typista.check('frobnicate'), false)
+		assert(!typista.words.includes('frobnicate'))
+		assertEquals(typista.suggest('hospitl', { limit: 1 }), ['hospital'])
+		assert(!typista.suggest('frobnicat').includes('frobnicate'))
+	})
+
+	await t.step('import and export', () => {
+		const dictionary = new PersonalDictionary()
+		dictionary.import('foo\nbar/baz\n\n*qux\r\n')
+		assertEquals([...dictionary.added], [['foo', null], ['bar', 'baz']])
+		assertEquals([...dictionary.ignored], ['qux'])
+		assertEquals(dictionary.export(), 'foo\nbar/baz\n*qux\n')
+
+		user.import(dictionary.export())
+		assertEquals(typista.check('foo'), true)
+		user.clear()
+	})
+})
+
+Deno.test('load', async (t) => {
+	await t.step('file URLs', async () => {
+		const progress: LoadProgress[] = []
+		const typista = await Typista.load(
+			{
+				aff: new URL('../dictionaries/en_US/en_US.aff', import.meta.url),
+				dic: new URL('../dictionaries/en_US/en_US.dic', import.meta.url).href,
+			},
+			// this copy of en_US.dic is UTF-8, despite the `SET ISO8859-1` in en_US.aff
+			{ encoding: 'utf-8', onProgress: (p) => progress.push(p) },
+		)
+
+		assertEquals(typista.words, new Typista(aff, dic).words)
+		assertEquals(typista.check('21st'), true)
+		assertEquals(typista.check('1th'), false)
+
+		assertEquals(progress.at(-1), { loaded: 62120, total: 62118 })
+		assert(progress.every((p, i) => i === 0 || p.loaded >= progress[i - 1].loaded))
+	})
+
+	const smallAff = 'SFX S Y 1\nSFX S 0 s .\n'
+	const smallDic = '3\r\ncat/S\r\ndog/S\r\nélève\r\n'
+
+	await t.step('URLs and bytes', async () => {
+		const typista = await Typista.load({
+			aff: new URL('../dictionaries/en_US/en_US.aff', import.meta.url),
+			dic: new TextEncoder().encode(smallDic),
+		}, { encoding: 'utf-8' })
+
+		assertEquals(typista.words, ['cat', 'cats', 'dog', 'dogs', 'élève'])
+	})
+
+	await t.step('streams', async () => {
+		const bytes = new TextEncoder().encode(smallDic)
+		// split mid-line and mid-character
+		const chunks = [bytes.slice(0, 5), bytes.slice(5, bytes.length - 3), bytes.slice(bytes.length - 3)]
+
+		const typista = await Typista.load({
+			aff: ReadableStream.from([new TextEncoder().encode(smallAff)]),
+			dic: ReadableStream.from(chunks),
+		})
+
+		assertEquals(typista.words, ['cat', 'cats', 'dog', 'dogs', 'élève'])
+	})
+
+	await t.step('relative file paths', async () => {
+		const typista = await Typista.load(
+			{ aff: './dictionaries/en_US/en_US.aff', dic: new TextEncoder().encode(smallDic) },
+			{ encoding: 'utf-8' },
+		)
+
+		assertEquals(typista.words, ['cat', 'cats', 'dog', 'dogs', 'élève'])
+	})
+
+	await t.step('encoding', async () => {
+		const dic = new Uint8Array([0x31, 0x0a, 0xe9, 0x6c, 0xe8, 0x76, 0x65])
+
+		const typista = await Typista.load({ aff: new Uint8Array(), dic }, { encoding: 'iso-8859-1' })
+		assertEquals(typista.words, ['élève'])
+
+		const aff = new TextEncoder().encode('SET ISO8859-1\nTRY é\n')
+		const fromSet = await Typista.load({ aff, dic })
+		assertEquals(fromSet.words, ['élève'])
+
+		const overridden = await Typista.load({ aff, dic: new TextEncoder().encode('1\nélève\n') }, {
+			encoding: 'utf-8',
+		})
+		assertEquals(overridden.words, ['élève'])
+	})
+
+	await t.step('abort', async () => {
+		const controller = new AbortController()
+		controller.abort()
+		await assertRejects(() => Typista.load({ aff: smallAff, dic: smallDic }, { signal: controller.signal }))
+	})
+})
+
+Deno.test('async initBkTree', async (t) => {
+	await t.step('suggestions while building', async () => {
+		const typista = new Typista(aff, dic)
+		const progress: BkTreeProgress[] = []
+		const promise = typista.initBkTree({ onProgress: (p) => progress.push(p) })
+
+		assertEquals(typista.suggest('hospitl', { limit: 1 }), ['hospital'])
+		assertEquals(typista.initBkTree({}), promise)
+
+		await promise
+		assertEquals(progress.at(-1), { added: typista.words.length, total: typista.words.length })
+		assert(progress.length > 1)
+		for (const word of ['hospitl', 'hwllo', 'speling']) {
+			assertEquals(typista.suggest(word), getInstance().suggest(word), word)
+		}
+	})
+
+	await t.step('abort', async () => {
+		const typista = new Typista(aff, dic)
+		const controller = new AbortController()
+		const promise = typista.initBkTree({
+			signal: controller.signal,
+			onProgress: () => controller.abort(),
+		})
+
+		await assertRejects(() => promise)
+		assertEquals(typista.suggest('hospitl', { limit: 1 }), ['hospital'])
+	})
+
+	await t.step('populated synchronously while building', async () => {
+		const typista = new Typista('', '2\nfoo\nbar\n')
+		const promise = typista.initBkTree({})
+		typista.initBkTree()
+
+		await promise
+		assertEquals(typista.suggest('fooo'), ['foo'])
+	})
+})
+
+Deno.test('suggester option', async (t) => {
+	const affData = 'SFX S Y 1\nSFX S 0 s .\n'
+	const dicData = '3\nhospital/S\nhostel/S\nhost\n'
+
+	await t.step('symSpell', () => {
+		const bkTree = new Typista(affData, dicData)
+		const symSpell = new Typista(affData, dicData, { suggester: 'symSpell' })
+
+		for (const word of ['hospitl', 'hostels', 'hots', 'hostpitals']) {
+			assertEquals(symSpell.suggest(word).toSorted(), bkTree.suggest(word).toSorted(), word)
+		}
+
+		symSpell.addWord('hostile')
+		assertEquals(symSpell.suggest('hostilr', { limit: 1 }), ['hostile'])
+	})
+
+	await t.step('custom', () => {
+		const queries: string[] = []
+		const typista = new Typista(affData, dicData, {
+			suggester: (words, options) => {
+				const index = new SymSpellIndex(words, { ...options, maxEditDistance: 1 })
+				return {
+					addWord: (term) => index.addWord(term),
+					removeWord: (term) => index.removeWord(term),
+					query: (queryTerm, maxDist) => (queries.push(queryTerm), index.query(queryTerm, maxDist)),
+					rank: (queryTerm, terms) => index.rank(queryTerm, terms),
+				}
+			},
+		})
+
+		assertEquals(typista.suggest('hospitl'), ['hospital'])
+		assertEquals(queries, ['hospitl'])
+	})
+
+	await t.step('snapshot', () => {
+		const typista = new Typista(affData, dicData, { suggester: 'symSpell' })
+		const snapshot = typista.serialize()
+		assertEquals(JSON.parse(snapshot).bkTree, null)
+
+		for (const suggester of ['symSpell', 'bkTree'] as const) {
+			const restored = Typista.fromSnapshot(snapshot, { suggester })
+			assertEquals(restored.suggest('hospitl'), typista.suggest('hospitl'), suggester)
+		}
+
+		const restored = Typista.fromSnapshot(new Typista(affData, dicData).serialize(), { suggester: 'symSpell' })
+		assertEquals(restored.suggest('hospitl'), typista.suggest('hospitl'))
+
+		// suggesters that aren't serialized aren't populated for it
+		let created = 0
+		const custom = new Typista(affData, dicData, {
+			suggester: (words, options) => (++created, new SymSpellIndex(words, options)),
+		})
+		custom.serialize()
+		assertEquals(created, 0)
+	})
+})
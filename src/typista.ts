@@ -1,7 +1,20 @@
 // Modified from https://github.com/cfinke/Typo.js
 // Modified BSD License
 
-import BkTree from './bktree.ts'
+import BkTree, { type BkTreeSnapshot } from './bktree.ts'
+import SymSpellIndex from './symSpellIndex.ts'
+import type { Suggester, SuggesterFactory } from './suggester.ts'
+import { collapseDoubledLetters, type RankingOptions } from './ranking.ts'
+import { damerauDistance } from './damerauSymSpell.ts'
+import { applyCasing, detectCasing } from './casing.ts'
+import { type Token, tokenize } from './tokenize.ts'
+import { DEFAULT_KEYBOARD_LAYOUT, type KeyboardNeighbors, parseKeyboardLayout } from './keyboard.ts'
+import { createWeightedDamerauDistance } from './weightedDamerau.ts'
+import { applyConversions, yieldToEventLoop } from './utils.ts'
+import { detectAffEncoding, type DictionarySource, readBytes, readLines, readText } from './sources.ts'
+import PersonalDictionary from './personalDictionary.ts'
+import LanguageModel from './languageModel.ts'
+import { levenshteinDistance } from '@std/text/levenshtein-distance'
 import { memoize } from '@std/cache/memoize'
 import { LruCache } from '@std/cache/lru-cache'
 
@@ -15,6 +28,14 @@ type HunspellFlags = {
 	ONLYINCOMPOUND?: boolean
 	KEEPCASE?: boolean
 	NOSUGGEST?: boolean
+	FORBIDDENWORD?: boolean
+	CIRCUMFIX?: boolean
+	COMPOUNDFLAG?: boolean
+	COMPOUNDBEGIN?: boolean
+	COMPOUNDMIDDLE?: boolean
+	COMPOUNDEND?: boolean
+	COMPOUNDPERMITFLAG?: boolean
+	COMPOUNDFORBIDFLAG?: boolean
 	NEEDAFFIX?: boolean
 
 	TRY?: string
@@ -23,8 +44,108 @@ type HunspellFlags = {
 
 type Flag = keyof HunspellFlags
 
+/** Flags that affixed forms inherit from the stem they were generated from */
+const INHERITED_FLAGS: Flag[] = [
+	'FORBIDDENWORD',
+	'NOSUGGEST',
+	'ONLYINCOMPOUND',
+]
+
+/**
+ * Flags in the continuation classes of affixes that affect whether their affixed forms can be compound parts. Affixed
+ * forms don't inherit the compound flags of their stems, as whether they can be compound parts depends on where their
+ * affixes are in the compound.
+ */
+const AFFIX_COMPOUND_FLAGS: Flag[] = [
+	'COMPOUNDFLAG',
+	'COMPOUNDBEGIN',
+	'COMPOUNDMIDDLE',
+	'COMPOUNDEND',
+	'COMPOUNDPERMITFLAG',
+	'COMPOUNDFORBIDFLAG',
+]
+
 type TypistaOptions = {
 	flags: HunspellFlags
+	/**
+	 * Keyboard layout in the format of Hunspell's `KEY` directive, used for ranking suggestions. Overrides the
+	 * dictionary's `KEY`, which itself defaults to QWERTY.
+	 */
+	keyboardLayout: string
+	/**
+	 * How affixed forms of the stems in the .dic file are looked up. `eager` generates all of them up front, which makes
+	 * lookups fast but can take a lot of memory for highly inflected languages. `lazy` only stores the stems, and strips
+	 * affixes from words when looking them up to find the stems they could be forms of.
+	 */
+	affixExpansion: AffixExpansion
+	/**
+	 * Index used to find suggestion candidates within an edit distance of a word. `bkTree` uses a BK-Tree, which is
+	 * compact. `symSpell` uses a symmetric delete index, which is much faster to query for short words but takes more
+	 * memory. A function can be given to create a custom index.
+	 */
+	suggester: SuggesterName | SuggesterFactory
+	/**
+	 * How often words are used, e.g. counts from a corpus, for ranking suggestions, weighed against how close they are to
+	 * the word, such that very common words can outrank closer ones. Words are looked up as they are, then lowercased.
+	 * Counts can be added later with `addFrequencies`.
+	 */
+	frequencies: Record<string, number> | null
+	/**
+	 * N-gram language model for taking the surrounding words into account, both when ranking suggestions for a word given
+	 * its context and when checking text for correct words that are unlikely in their context (`by` for `buy`).
+	 */
+	languageModel: LanguageModel | null
+}
+
+type AffixExpansion = 'eager' | 'lazy'
+
+type SuggesterName = 'bkTree' | 'symSpell'
+
+const SUGGESTERS: Record<SuggesterName, SuggesterFactory> = {
+	bkTree: (words, options) => new BkTree(words, options),
+	symSpell: (words, options) => new SymSpellIndex(words, options),
+}
+
+type LoadOptions = TypistaOptions & {
+	/**
+	 * Encoding of the .aff and .dic files, overriding the .aff file's `SET` directive (without which they're read as
+	 * UTF-8). Also used for the word frequency and n-gram count lists, which are otherwise read as UTF-8.
+	 */
+	encoding: string | null
+	/** Called periodically while the .dic file is parsed. */
+	onProgress: ((progress: LoadProgress) => void) | null
+	/** Aborts loading. */
+	signal: AbortSignal | null
+}
+const defaultLoadOptions: Omit<LoadOptions, keyof TypistaOptions> = {
+	encoding: null,
+	onProgress: null,
+	signal: null,
+}
+
+type InitBkTreeOptions = {
+	/** Aborts building, discarding the partially built BK-Tree. */
+	signal: AbortSignal | null
+	/** Called periodically while building. */
+	onProgress: ((progress: BkTreeProgress) => void) | null
+}
+const defaultInitBkTreeOptions: InitBkTreeOptions = {
+	signal: null,
+	onProgress: null,
+}
+
+export type BkTreeProgress = {
+	/** Number of words (or stems, with lazy affix expansion) processed so far */
+	added: number
+	/** Number of words (or stems and added words, with lazy affix expansion) in the dictionary */
+	total: number
+}
+
+export type LoadProgress = {
+	/** Number of lines of the .dic file parsed so far */
+	loaded: number
+	/** Number of words in the .dic file, as given by its first line */
+	total: number | null
 }
 
 // TODO: maybe make this more type-safe?
@@ -46,13 +167,264 @@ type AffixRule = {
 	entries: AffixEntry[]
 }
 
-type SuggestOptions = {
+type CompoundPattern = {
+	/** Characters the first part must end with, optionally followed by `/` and a flag the first part must have */
+	end: string
+	/** Characters the second part must begin with, optionally followed by `/` and a flag the second part must have */
+	begin: string
+}
+
+type CompoundPosition = 'begin' | 'middle' | 'end'
+
+type SerializedAffixEntry = Omit<AffixEntry, 'match' | 'remove'> & {
+	match?: string
+	remove?: string
+}
+
+type SerializedAffixRule = Omit<AffixRule, 'entries'> & {
+	entries: SerializedAffixEntry[]
+}
+
+const SNAPSHOT_VERSION = 2
+
+type TypistaSnapshot = {
+	version: typeof SNAPSHOT_VERSION
+	/** Entries rather than an object, as flags without a value are `undefined` */
+	flags: [string, unknown][]
+	rules: Record<string, SerializedAffixRule>
+	/** Each word along with its flags, or just the word if it has none */
+	dictionary: (string | [string, string[][]])[]
+	compoundRules: string[]
+	replacementTable: [string, string][]
+	compoundPatterns: CompoundPattern[]
+	breakTable: string[] | null
+	mapTable: string[][]
+	inputConversions: [string, string][]
+	outputConversions: [string, string][]
+	keyboardLayout: string
+	affixExpansion: AffixExpansion
+	/**
+	 * Each stem from the .dic file along with its sets of flags. With eager affix expansion, this only includes stems with
+	 * the `NEEDAFFIX` flag and those modified with `addWord` or `removeWord`, as the others are in `dictionary`.
+	 */
+	stems: [string, string[][]][]
+	/** Words added or removed with `addWord` or `removeWord`, only tracked with lazy affix expansion */
+	modifiedWords: string[]
+	/**
+	 * The BK-Tree, with each term that's in `dictionary` replaced by its index, or `null` if another suggester is used
+	 */
+	bkTree: (Omit<BkTreeSnapshot, 'terms'> & { terms: (number | string)[] }) | null
+}
+
+type AffixedForm = {
+	word: string
+	/** Continuation classes of the applied affixes, which may include flags such as `COMPOUNDFLAG` */
+	flags: string[]
+	/**
+	 * The type (`PFX` or `SFX`) of an applied affix with the `CIRCUMFIX` flag that hasn't yet been paired with an affix
+	 * of the other type that also has the flag. Until it has, the form is incomplete and isn't a valid word.
+	 */
+	unpairedCircumfix: string | null
+	/** Flags of the applied affixes, in the order they were applied */
+	affixes: string[]
+}
+
+/** A complete affixed form of a stem, along with the flags it inherits from the stem and the applied affixes */
+type ExpandedForm = {
+	word: string
+	flags: string[]
+	/** Flags in the continuation classes of the applied affixes that affect compounding, such as `COMPOUNDPERMITFLAG` */
+	compoundFlags: string[]
+	/** Flags of the applied affixes, in the order they were applied */
+	affixes: string[]
+}
+
+/** Personal dictionaries applied on top of the dictionary, in order of precedence from lowest to highest */
+const PERSONAL_DICTIONARY_LAYERS = ['base', 'organization', 'user'] as const
+
+export type PersonalDictionaryLayer = typeof PERSONAL_DICTIONARY_LAYERS[number]
+
+/** One way that a word can be formed from a stem in the dictionary */
+export type Analysis = {
+	/** The stem, as listed in the .dic file */
+	stem: string
+	/** Flags of the prefixes applied to the stem, in the order they were applied */
+	prefixes: string[]
+	/** Flags of the suffixes applied to the stem, in the order they were applied */
+	suffixes: string[]
+}
+
+export type SuggestOptions = {
 	maxDist: number
 	limit: number | undefined
+	/**
+	 * Text before and after the word, for ranking suggestions by how likely they are in context. Only used with a
+	 * language model.
+	 */
+	context: SuggestionContext | null
 }
-const defaultSuggestOptions: SuggestOptions = {
+export const defaultSuggestOptions: SuggestOptions = {
 	maxDist: 0.2,
 	limit: 10,
+	context: null,
+}
+
+export type SuggestionContext = {
+	/** Text before the word, such as the start of its sentence */
+	before: string
+	/** Text after the word, such as the rest of its sentence */
+	after: string
+}
+
+/**
+ * Why a suggestion was proposed:
+ * - `case`: it differs from the word only in case
+ * - `doubledLetter`: it differs from the word only in case and in letters being doubled or not
+ * - `replacement`: it was generated by the `REP` replacement table
+ * - `split`: it was generated by splitting the word into two correct words
+ * - `correction`: it was previously accepted as the correction for the word, as recorded with `recordCorrection`
+ * - `map`: it was generated by substituting related characters from the `MAP` table
+ * - `editDistance`: it's within the maximum edit distance of the word
+ */
+export type SuggestionReason =
+	| 'case'
+	| 'doubledLetter'
+	| 'replacement'
+	| 'split'
+	| 'map'
+	| 'correction'
+	| 'editDistance'
+
+export type DetailedSuggestion = {
+	word: string
+	/** Levenshtein distance from the word */
+	levenshteinDistance: number
+	/** Damerau-Levenshtein distance from the word, which counts transposing adjacent characters as a single edit */
+	damerauDistance: number
+	/**
+	 * How likely the suggestion is to be the intended word, from 0 to 1, based on the cost of the edits relative to the
+	 * length of the word. Edits explained by the reason (such as changing case) are cheap, and other edits are costed by
+	 * keyboard-aware edit distance.
+	 */
+	confidence: number
+	reason: SuggestionReason
+}
+
+export type CheckTextOptions = {
+	/** Whether to include suggestions for each misspelling, optionally with options for suggesting. */
+	suggest: boolean | Partial<SuggestOptions>
+	/**
+	 * Whether to also report pairs of adjacent words, separated only by spaces, that form a correct word when joined
+	 * (`some thing`), even if the words are themselves correct. Each is reported as a single misspelling spanning both
+	 * words, whose only suggestion is the joined word.
+	 */
+	joinWords: boolean
+	/**
+	 * Whether to also report correct words that are much less likely in their context than a similar word, according to
+	 * the language model (`by` in `I want to by a car`). Each is reported with the more likely words as its suggestions.
+	 * Only words that the language model has seen are checked.
+	 */
+	realWordErrors: boolean
+}
+const defaultCheckTextOptions: CheckTextOptions = {
+	suggest: false,
+	joinWords: false,
+	realWordErrors: false,
+}
+
+export type Misspelling = Token & {
+	suggestions?: string[]
+}
+
+/** Hunspell's default `BREAK` patterns, used when the .aff file doesn't declare any */
+const DEFAULT_BREAK_PATTERNS = ['-', '^-', '-$']
+
+/** Maximum number of `BREAK` pattern occurrences in a word for it to be checked as separate words */
+const MAX_BREAKS = 10
+
+/** Cost of substituting a character for one of its keyboard neighbors when ranking suggestions */
+const KEYBOARD_NEIGHBOR_COST = 0.5
+
+/** Cost used for the confidence of a suggestion that differs from the word only in case */
+const CASE_CHANGE_COST = 0.1
+
+/** Cost per edit used for the confidence of a suggestion that differs in doubled letters or `MAP` related characters */
+const RELATED_EDIT_COST = 0.5
+
+/** Cost used for the confidence of a suggestion generated by the `REP` replacement table */
+const REPLACEMENT_COST = 0.5
+
+/** Cost used for the confidence of a suggestion generated by splitting the word in two */
+const SPLIT_COST = 0.5
+
+/** Cost used for the confidence of a suggestion that was previously accepted as the correction for the word */
+const CORRECTION_COST = 0.5
+
+/**
+ * Logarithm of how much less likely a suggestion is for each unit of its cost, as a typo, when weighing it against how
+ * likely it is in context
+ */
+const LOG_LIKELIHOOD_PER_COST = Math.log(100)
+
+/** Prior probability that a correct word in a text is the intended word, when checking for real-word errors */
+const REAL_WORD_PRIOR = 0.95
+
+/** Characters between words that end a sentence, beyond which words aren't used as context */
+const SENTENCE_BREAK = /[.!?;:\r\n]/u
+
+/** Hunspell's default minimum length of each part of a flag-based compound word, used if `COMPOUNDMIN` isn't set */
+const DEFAULT_COMPOUND_MIN = 3
+
+/** Time to spend working between yields to the event loop when loading or building asynchronously, in milliseconds */
+const TIME_SLICE = 16
+
+/** Characters to try when generating suggestions by editing words, used if the .aff file doesn't declare `TRY` */
+const DEFAULT_TRY_CHARS = 'abcdefghijklmnopqrstuvwxyz'
+
+/** Maximum number of `MAP` substitution combinations to check when generating suggestions */
+const MAX_MAP_CANDIDATES = 1000
+
+/**
+ * Maximum number of affixes to strip from a word when looking up the stems it could be a form of, with lazy affix
+ * expansion. Forms with more affixes than this (via continuation classes) aren't found.
+ */
+const MAX_STRIPPED_AFFIXES = 3
+
+/**
+ * Adds a word to a dictionary table.
+ *
+ * @param table The table.
+ * @param word The word.
+ * @param rules A set of flags that the word has, which may be empty.
+ */
+function addToTable(table: Record<string, string[][] | null>, word: string, rules: string[]) {
+	// Some dictionaries will list the same word multiple times with different rule sets.
+	if (!(word in table)) {
+		table[word] = null
+	}
+	if (rules.length > 0) {
+		if (table[word] == null) {
+			table[word] = []
+		}
+		table[word].push(rules)
+	}
+}
+
+/**
+ * Parses a word frequency list, with a word and its count on each line (`the 23135851162`).
+ *
+ * @param text The contents of the frequency list.
+ * @returns The count of each word.
+ */
+function parseFrequencies(text: string): Record<string, number> {
+	const frequencies: Record<string, number> = Object.create(null)
+	for (const line of text.split(/\r?\n/)) {
+		const [word, count] = line.trim().split(/\s+/)
+		if (word && Number(count) > 0) {
+			frequencies[word] = (frequencies[word] ?? 0) + Number(count)
+		}
+	}
+	return frequencies
 }
 
 /**
@@ -65,104 +437,1053 @@ export default class Typista {
 	#compoundRules: RegExp[] = []
 	#compoundRuleCodes: Record<string, string[]> = Object.create(null)
 	#replacementTable: [string, string][] = []
+	#compoundPatterns: CompoundPattern[] = []
+	#breakTable: string[] | null = null
+	#mapTable: string[][] = []
+	#inputConversions: [string, string][] = []
+	#outputConversions: [string, string][] = []
+	#reverseOutputConversions: [string, string][] = []
+	#mapRepresentatives = new Map<string, string>()
+	#mapFoldRegex = /(?!)/gu
+	/**
+	 * The stems from the .dic file with their flags. With eager affix expansion, only those whose flags aren't in the
+	 * dictionary table, i.e. those with `NEEDAFFIX` and those modified with `addWord` or `removeWord`.
+	 */
+	#stemTable: Record<string, string[][]> = Object.create(null)
+	/** The parsed flags of the .dic file, which are shared between all words with the same flags to save memory */
+	#dicRuleCodes = new Map<string, string[]>()
+	/** Maps each string added by a prefix to the prefix entries that add it */
+	#prefixEntries = new Map<string, AffixEntry[]>()
+	/** Maps each string added by a suffix to the suffix entries that add it */
+	#suffixEntries = new Map<string, AffixEntry[]>()
+	/** Words whose entries in the dictionary table override their affixed forms, with lazy affix expansion */
+	#modifiedWords = new Set<string>()
+	#lookupCache = new LruCache<string, string[][] | null | undefined>(1e4)
+	#expansionCache = new LruCache<string, ExpandedForm[]>(1e3)
+	#personalDictionaries = Object.fromEntries(PERSONAL_DICTIONARY_LAYERS.map((layer) => {
+		return [layer, new PersonalDictionary({ onChange: () => this.#updatePersonalDictionary(layer) })]
+	})) as Record<PersonalDictionaryLayer, PersonalDictionary>
+	/** The words added by each personal dictionary, including the affixed forms of those that have a model word */
+	#personalDictionaryTables = Object.fromEntries(PERSONAL_DICTIONARY_LAYERS.map((layer) => {
+		return [layer, Object.create(null)]
+	})) as Record<PersonalDictionaryLayer, Record<string, string[][] | null>>
+	/** The words ignored by each personal dictionary as of its last update */
+	#personalDictionaryIgnored = Object.fromEntries(PERSONAL_DICTIONARY_LAYERS.map((layer) => {
+		return [layer, new Set()]
+	})) as Record<PersonalDictionaryLayer, Set<string>>
 
 	#flags: PermissiveHunspellFlags
 	#affData: string
 	#wordsData: string
+	#keyboardLayout: string
+	#keyboardNeighbors: KeyboardNeighbors
+	#affixExpansion: AffixExpansion
+	#createSuggester: SuggesterFactory
+	#frequencies: Map<string, number>
+	/** Logarithm of the highest frequency, for scaling frequencies from 0 to 1 */
+	#maxLogFrequency = 0
+	/** For each lowercased word, the number of times each correction was accepted for it */
+	#corrections = new Map<string, Map<string, number>>()
+	#languageModel: LanguageModel | null
 
 	/**
 	 * @param affData The textual data from the dictionary's .aff file.
 	 * @param dicData The textual data from the dictionary's .dic file.
-	 * @param options `flags` and `editDistance` options.
+	 * @param options `flags`, `keyboardLayout`, `affixExpansion`, `suggester`, `frequencies` and `languageModel`
+	 * options.
 	 */
 	constructor(affData: string, dicData: string, options?: Partial<TypistaOptions>) {
 		this.#flags = Object.assign(Object.create(null), options?.flags ?? {})
+		this.#affixExpansion = options?.affixExpansion ?? 'eager'
+		const suggester = options?.suggester ?? 'bkTree'
+		this.#createSuggester = typeof suggester === 'string' ? SUGGESTERS[suggester] : suggester
+		this.#frequencies = new Map(Object.entries(options?.frequencies ?? {}))
+		for (const count of this.#frequencies.values()) {
+			this.#maxLogFrequency = Math.max(this.#maxLogFrequency, Math.log1p(count))
+		}
+		this.#languageModel = options?.languageModel ?? null
 
 		this.#affData = affData
 		this.#wordsData = dicData
 
 		this.#setup()
 
+		this.#keyboardLayout = options?.keyboardLayout ?? this.#flags.KEY ?? DEFAULT_KEYBOARD_LAYOUT
+		this.#keyboardNeighbors = parseKeyboardLayout(this.#keyboardLayout)
+
 		this.suggest = memoize(this.suggest.bind(this), {
 			cache: this.#suggestionCache,
 			getKey: (word, options) => options ? JSON.stringify({ word, options }) : word,
 		})
 	}
 
-	// TODO: fix types in @std/cache/memoize to avoid need for `any`
-	// deno-lint-ignore no-explicit-any
-	#suggestionCache = new LruCache<string, any>(1e4)
+	/**
+	 * Loads a dictionary asynchronously, parsing the .dic file line by line as it's read and periodically yielding to the
+	 * event loop.
+	 *
+	 * @param sources The .aff and .dic files, and optionally a word frequency list with a word and its count on each line
+	 * (which takes the place of the `frequencies` option) and an n-gram count list for `LanguageModel.parse` (which takes
+	 * the place of the `languageModel` option), each as a file path, URL, bytes, or stream of bytes.
+	 * @param options `encoding`, `onProgress` and `signal` options, along with the options for the constructor.
+	 * @returns The loaded instance.
+	 */
+	static async load(
+		sources: {
+			aff: DictionarySource
+			dic: DictionarySource
+			frequencies?: DictionarySource
+			languageModel?: DictionarySource
+		},
+		options?: Partial<LoadOptions>,
+	): Promise<Typista> {
+		const { encoding, onProgress, signal, ...typistaOptions } = { ...defaultLoadOptions, ...options }
+
+		signal?.throwIfAborted()
+		if (sources.frequencies != null) {
+			typistaOptions.frequencies = parseFrequencies(await readText(sources.frequencies, encoding ?? 'utf-8'))
+		}
+		if (sources.languageModel != null) {
+			typistaOptions.languageModel = LanguageModel.parse(
+				await readText(sources.languageModel, encoding ?? 'utf-8'),
+			)
+		}
+		const aff = await readBytes(sources.aff)
+		const dictionaryEncoding = encoding ?? detectAffEncoding(aff) ?? 'utf-8'
+		const typista = new Typista(new TextDecoder(dictionaryEncoding).decode(aff), '', typistaOptions)
+		await typista.#loadDic(readLines(sources.dic, dictionaryEncoding), onProgress, signal)
+
+		return typista
+	}
+
+	async #loadDic(
+		lines: AsyncIterable<string>,
+		onProgress: LoadOptions['onProgress'],
+		signal: LoadOptions['signal'],
+	) {
+		this.#setupCompoundRuleCodes()
+		const dictionaryTable: Record<string, string[][] | null> = Object.create(null)
+		this.#stemTable = Object.create(null)
+
+		let loaded = 0
+		let total: number | null = null
+		let sliceStart = performance.now()
+		for await (const line of lines) {
+			if (loaded++ === 0) {
+				// The first line is the number of words in the dictionary.
+				total = parseInt(line, 10) || null
+			} else {
+				this.#parseDicLine(this.#removeDicComments(line), dictionaryTable)
+			}
+
+			if (performance.now() - sliceStart >= TIME_SLICE) {
+				onProgress?.({ loaded, total })
+				await yieldToEventLoop()
+				signal?.throwIfAborted()
+				sliceStart = performance.now()
+			}
+		}
+
+		this.#dictionaryTable = dictionaryTable
+		this.#setupCompoundRules()
+		onProgress?.({ loaded, total })
+	}
+
+	// TODO: fix types in @std/cache/memoize to avoid need for `any`
+	// deno-lint-ignore no-explicit-any
+	#suggestionCache = new LruCache<string, any>(1e4)
+
+	/**
+	 * Serializes the fully parsed dictionary, including the BK-Tree, which is populated first if it hasn't been yet. Other
+	 * suggesters aren't included, and are populated from the dictionary's words again after restoring.
+	 *
+	 * Restoring the result with `Typista.fromSnapshot` takes about as long as parsing the .aff and .dic files (around
+	 * half a second for en_US), so what it saves is building the BK-Tree, which otherwise takes several seconds on the
+	 * first `suggest`.
+	 *
+	 * Word frequencies, the language model and recorded corrections aren't included, as they can be passed to
+	 * `fromSnapshot` or recorded again separately.
+	 *
+	 * @returns The snapshot, as JSON.
+	 */
+	serialize(): string {
+		const words = Object.keys(this.#dictionaryTable)
+		const indexes = new Map(words.map((word, i) => [word, i]))
+		// other suggesters aren't serialized, so they're not populated just to be discarded
+		const suggester = this.#createSuggester === SUGGESTERS.bkTree ? this.#getSuggester() : this.#suggester
+		const bkTree = suggester instanceof BkTree ? suggester.toSnapshot() : null
+
+		const snapshot: TypistaSnapshot = {
+			version: SNAPSHOT_VERSION,
+			flags: Object.entries(this.#flags),
+			rules: Object.fromEntries(
+				Object.entries(this.#rules).map(([code, rule]) => [code, {
+					...rule,
+					entries: rule.entries.map(({ match, remove, ...entry }) => ({
+						...entry,
+						...(match != null && { match: match.source }),
+						...(remove != null && { remove: typeof remove === 'string' ? remove : remove.source }),
+					})),
+				}]),
+			),
+			dictionary: words.map((word) => {
+				const flags = this.#dictionaryTable[word]
+				return flags == null ? word : [word, flags]
+			}),
+			compoundRules: this.#compoundRules.map((rule) => rule.source),
+			replacementTable: this.#replacementTable,
+			compoundPatterns: this.#compoundPatterns,
+			breakTable: this.#breakTable,
+			mapTable: this.#mapTable,
+			inputConversions: this.#inputConversions,
+			outputConversions: this.#outputConversions,
+			keyboardLayout: this.#keyboardLayout,
+			affixExpansion: this.#affixExpansion,
+			stems: Object.entries(this.#stemTable),
+			modifiedWords: [...this.#modifiedWords],
+			bkTree: bkTree && { ...bkTree, terms: bkTree.terms.map((term) => indexes.get(term) ?? term) },
+		}
+
+		return JSON.stringify(snapshot)
+	}
+
+	/**
+	 * Restores a dictionary serialized with `serialize`.
+	 *
+	 * @param snapshot The snapshot, as JSON.
+	 * @param options Options other than `flags` and `affixExpansion`, which are already included in the snapshot.
+	 * @returns The restored instance.
+	 */
+	static fromSnapshot(
+		snapshot: string,
+		options?: Partial<Omit<TypistaOptions, 'flags' | 'affixExpansion'>>,
+	): Typista {
+		const data: TypistaSnapshot = JSON.parse(snapshot)
+		if (data.version !== SNAPSHOT_VERSION) {
+			throw new Error(`Unsupported snapshot version: ${data.version}`)
+		}
+
+		const typista = new Typista('', '', options)
+		typista.#restore(data, options)
+
+		return typista
+	}
+
+	#restore(data: TypistaSnapshot, options?: Partial<Omit<TypistaOptions, 'flags' | 'affixExpansion'>>) {
+		this.#flags = Object.assign(Object.create(null), Object.fromEntries(data.flags))
+		this.#affixExpansion = data.affixExpansion
+
+		this.#rules = Object.create(null)
+		for (const [code, rule] of Object.entries(data.rules)) {
+			this.#rules[code] = {
+				...rule,
+				entries: rule.entries.map(({ match, remove, ...entry }) => ({
+					...entry,
+					...(match != null && { match: new RegExp(match) }),
+					...(remove != null && { remove: rule.type === 'SFX' ? new RegExp(remove) : remove }),
+				})),
+			}
+		}
+
+		this.#dictionaryTable = Object.create(null)
+		for (const entry of data.dictionary) {
+			if (typeof entry === 'string') {
+				this.#dictionaryTable[entry] = null
+			} else {
+				this.#dictionaryTable[entry[0]] = entry[1]
+			}
+		}
+		this.#stemTable = Object.assign(Object.create(null), Object.fromEntries(data.stems))
+		this.#modifiedWords = new Set(data.modifiedWords)
+
+		this.#compoundRules = data.compoundRules.map((source) => new RegExp(source, 'i'))
+		this.#replacementTable = data.replacementTable
+		this.#compoundPatterns = data.compoundPatterns
+		this.#breakTable = data.breakTable
+		this.#mapTable = data.mapTable
+		this.#inputConversions = data.inputConversions
+		this.#outputConversions = data.outputConversions
+		this.#setupDerivedTables()
+
+		this.#keyboardLayout = options?.keyboardLayout ?? data.keyboardLayout
+		this.#keyboardNeighbors = parseKeyboardLayout(this.#keyboardLayout)
+
+		if (data.bkTree != null && this.#createSuggester === SUGGESTERS.bkTree) {
+			const terms = data.bkTree.terms.map((term) => {
+				if (typeof term === 'string') return term
+				const entry = data.dictionary[term]
+				return typeof entry === 'string' ? entry : entry[0]
+			})
+			this.#suggester = BkTree.fromSnapshot({ ...data.bkTree, terms }, this.#rankingOptions())
+		}
+
+		this.#lookupCache.clear()
+		this.#expansionCache.clear()
+		this.#suggestionCache.clear()
+	}
+
+	removeWord(word: string): void {
+		this.#modifyWord(word)
+		delete this.#dictionaryTable[word]
+		this.#updateSuggester([word])
+
+		this.#suggestionCache.clear()
+	}
+
+	addWord(word: string, flags?: string[][]): void {
+		this.#modifyWord(word)
+		this.#dictionaryTable[word] = flags ?? null
+		this.#updateSuggester([word])
+
+		this.#suggestionCache.clear()
+	}
+
+	/**
+	 * Personal dictionaries that add and ignore words on top of the dictionary, without modifying it. The `base` layer
+	 * takes precedence over the dictionary itself, `organization` over `base`, and `user` over `organization`.
+	 *
+	 * Personal dictionaries aren't included in snapshots, as they can be exported separately.
+	 */
+	get personalDictionaries(): Readonly<Record<PersonalDictionaryLayer, PersonalDictionary>> {
+		return this.#personalDictionaries
+	}
+
+	#updatePersonalDictionary(layer: PersonalDictionaryLayer) {
+		const table: Record<string, string[][] | null> = Object.create(null)
+		for (const [word, model] of this.#personalDictionaries[layer].added) {
+			const ruleSets = model == null ? [] : this.#stemRuleSets(model)
+			if (ruleSets.length === 0) {
+				addToTable(table, word, [])
+			}
+			for (const ruleCodes of ruleSets) {
+				if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+					addToTable(table, word, ruleCodes)
+				}
+				for (const form of this.#expand(word, ruleCodes)) {
+					addToTable(table, form.word, form.flags)
+				}
+			}
+		}
+		const previousTable = this.#personalDictionaryTables[layer]
+		const previousIgnored = this.#personalDictionaryIgnored[layer]
+		this.#personalDictionaryTables[layer] = table
+		this.#personalDictionaryIgnored[layer] = new Set(this.#personalDictionaries[layer].ignored)
+
+		this.#updateSuggester(
+			new Set([
+				...Object.keys(previousTable),
+				...previousIgnored,
+				...Object.keys(table),
+				...this.#personalDictionaryIgnored[layer],
+			]),
+		)
+
+		this.#suggestionCache.clear()
+	}
+
+	/**
+	 * Adds words to the suggester or removes them from it, according to whether they can now be suggested.
+	 *
+	 * If the suggester is null, we don't need to update it now, as it will be populated at initialization via
+	 * `#getSuggester` upon first call to `suggest` or `initBkTree`.
+	 *
+	 * @param words The words that may have been added or removed.
+	 * @param suggester The suggester to update, if not the current one.
+	 */
+	#updateSuggester(words: Iterable<string>, suggester = this.#suggester ?? this.#partialSuggester) {
+		if (suggester == null) {
+			return
+		}
+
+		for (const word of words) {
+			const ruleSets = this.#lookup(word)
+			if (ruleSets !== undefined && this.#isSuggestible(word, ruleSets)) {
+				suggester.addWord(word)
+			} else {
+				suggester.removeWord(word)
+			}
+		}
+	}
+
+	/** Records that a word's entry in the dictionary table is about to be overridden. */
+	#modifyWord(word: string) {
+		if (this.#affixExpansion === 'lazy') {
+			this.#modifiedWords.add(word)
+			this.#lookupCache.delete(word)
+		} else if (!(word in this.#stemTable) && this.#dictionaryTable[word] != null) {
+			// keep the flags as a stem's, as its affixed forms are still in the dictionary table
+			this.#stemTable[word] = this.#dictionaryTable[word]
+		}
+	}
+
+	/**
+	 * The words in the dictionary along with their flags. With lazy affix expansion, this is a new object that only
+	 * includes the stems and added words, as the affixed forms aren't stored.
+	 */
+	get dictionaryTable(): Record<string, string[][] | null> {
+		if (this.#affixExpansion === 'eager') {
+			return this.#dictionaryTable
+		}
+
+		const table: Record<string, string[][] | null> = Object.create(null)
+		for (const [stem, ruleSets] of Object.entries(this.#stemTable)) {
+			if (this.#modifiedWords.has(stem)) {
+				continue
+			}
+			for (const ruleCodes of ruleSets) {
+				if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+					addToTable(table, stem, ruleCodes)
+				}
+			}
+		}
+		return Object.assign(table, this.#dictionaryTable)
+	}
+
+	/**
+	 * All words in the dictionary and personal dictionaries, including affixed forms.
+	 *
+	 * This is a new array each time, which is expensive to create for large dictionaries. With lazy affix expansion, it
+	 * generates every affixed form, and so temporarily takes as much memory as eager affix expansion.
+	 */
+	get words(): string[] {
+		const words = new Set<string>()
+		for (const entries of this.#dictionaryEntries()) {
+			for (const { word } of entries) {
+				words.add(word)
+			}
+		}
+		for (const layer of PERSONAL_DICTIONARY_LAYERS) {
+			for (const word of this.#personalDictionaries[layer].ignored) {
+				words.delete(word)
+			}
+			for (const word of Object.keys(this.#personalDictionaryTables[layer])) {
+				words.add(word)
+			}
+		}
+		return [...words]
+	}
+
+	#suggester: Suggester | null = null
+	#getSuggester() {
+		if (this.#suggester == null) {
+			const suggester = this.#createSuggester([], this.#rankingOptions())
+			const unsuggestible = new Set<string>()
+			for (const entries of this.#dictionaryEntries()) {
+				this.#addEntriesToSuggester(suggester, entries, unsuggestible)
+			}
+			this.#finishSuggester(suggester, unsuggestible)
+			this.#suggester = suggester
+		}
+		return this.#suggester
+	}
+
+	/**
+	 * Adds the words of dictionary entries to a suggester as it's populated, if they can be suggested.
+	 *
+	 * @param suggester The suggester.
+	 * @param entries The entries.
+	 * @param unsuggestible The words found so far to have a set of flags that means they can't be suggested, which are
+	 * removed by `#finishSuggester` in case they were added with another set of flags.
+	 */
+	#addEntriesToSuggester(
+		suggester: Suggester,
+		entries: { word: string; flags: string[] }[],
+		unsuggestible: Set<string>,
+	) {
+		for (const { word, flags } of entries) {
+			if (!this.#isSuggestible(word, [flags])) {
+				unsuggestible.add(word)
+			} else if (!unsuggestible.has(word)) {
+				suggester.addWord(word)
+			}
+		}
+	}
+
+	/**
+	 * Finishes populating a suggester from dictionary entries, removing the words that can't be suggested, then applying
+	 * the personal dictionaries.
+	 */
+	#finishSuggester(suggester: Suggester, unsuggestible: Set<string>) {
+		for (const word of unsuggestible) {
+			suggester.removeWord(word)
+		}
+		this.#updateSuggester(this.#personalDictionaryWords(), suggester)
+	}
+
+	#rankingOptions(): RankingOptions {
+		return {
+			weightedDistance: this.#weightedDistance,
+			normalizers: this.#mapTable.length ? [this.#foldMapRelated.bind(this)] : [],
+			// always given, as frequencies can be added later
+			frequency: this.#relativeFrequency.bind(this),
+		}
+	}
+
+	/**
+	 * How common a term is, from 0 to 1 on a logarithmic scale. A term of several words is as common as its rarest word.
+	 *
+	 * @param term The term.
+	 */
+	#relativeFrequency(term: string): number {
+		if (this.#maxLogFrequency === 0) {
+			return 0
+		}
+		return Math.min(
+			...term.split(' ').map((word) => {
+				const count = this.#frequencies.get(word) ?? this.#frequencies.get(word.toLowerCase()) ?? 0
+				return Math.log1p(count) / this.#maxLogFrequency
+			}),
+		)
+	}
+
+	/**
+	 * Records that a suggestion was accepted as the correction for a word, e.g. from users' usage statistics, so that
+	 * it's suggested first for the word (ignoring case) from then on, even if it's beyond the maximum edit distance.
+	 * Corrections accepted more times are suggested ahead of others.
+	 *
+	 * @param word The word that was corrected.
+	 * @param correction The accepted correction, which is only suggested if it's correct (or consists of correct words
+	 * separated by spaces).
+	 * @param count The number of times the correction was accepted.
+	 */
+	recordCorrection(word: string, correction: string, count = 1): void {
+		const key = this.#convertInput(word).toLowerCase()
+		correction = this.#convertInput(correction)
+
+		let corrections = this.#corrections.get(key)
+		if (corrections == null) {
+			corrections = new Map()
+			this.#corrections.set(key, corrections)
+		}
+		corrections.set(correction, (corrections.get(correction) ?? 0) + count)
+
+		this.#suggestionCache.clear()
+	}
+
+	/**
+	 * Adds to how often words are used, such as counts of the words a user has typed, which changes how suggestions are
+	 * ranked from then on.
+	 *
+	 * @param frequencies The count to add for each word.
+	 */
+	addFrequencies(frequencies: Record<string, number>): void {
+		for (const [word, count] of Object.entries(frequencies)) {
+			const total = (this.#frequencies.get(word) ?? 0) + count
+			this.#frequencies.set(word, total)
+			this.#maxLogFrequency = Math.max(this.#maxLogFrequency, Math.log1p(total))
+		}
+
+		this.#suggestionCache.clear()
+	}
+
+	#weightedDistance = createWeightedDamerauDistance((char1, char2) => {
+		return this.#keyboardNeighbors.get(char1)?.has(char2) ? KEYBOARD_NEIGHBOR_COST : 1
+	})
+
+	/**
+	 * Populates the BK-Tree (or whichever suggester is used), which can be a costly operation.
+	 *
+	 * The BK-Tree is automatically populated on the first call to `suggest`, but you can call this function explicitly
+	 * to give further control over when population happens.
+	 */
+	initBkTree(): void
+	/**
+	 * Populates the BK-Tree asynchronously, in chunks that periodically yield to the event loop.
+	 *
+	 * Until it's finished, `suggest` uses the partially built BK-Tree along with suggestions generated by single edits to
+	 * the word, rather than populating the BK-Tree synchronously. Calling this again while building returns the same
+	 * promise.
+	 *
+	 * @param options `signal` and `onProgress` options.
+	 * @returns A promise that resolves once the BK-Tree is populated.
+	 */
+	initBkTree(options: Partial<InitBkTreeOptions>): Promise<void>
+	initBkTree(options?: Partial<InitBkTreeOptions>): void | Promise<void> {
+		if (options == null) {
+			this.#getSuggester()
+			return
+		}
+		return this.#bkTreeBuild ??= this.#buildBkTree({ ...defaultInitBkTreeOptions, ...options }).finally(() => {
+			this.#bkTreeBuild = null
+		})
+	}
+
+	#partialSuggester: Suggester | null = null
+	#bkTreeBuild: Promise<void> | null = null
+
+	async #buildBkTree({ signal, onProgress }: InitBkTreeOptions) {
+		try {
+			signal?.throwIfAborted()
+			if (this.#suggester != null) {
+				return
+			}
+
+			const total = this.#dictionaryEntryCount
+			const suggester = this.#createSuggester([], this.#rankingOptions())
+			const unsuggestible = new Set<string>()
+			this.#partialSuggester = suggester
+
+			let added = 0
+			let sliceStart = performance.now()
+			for (const entries of this.#dictionaryEntries()) {
+				this.#addEntriesToSuggester(suggester, entries, unsuggestible)
+				++added
+
+				if (performance.now() - sliceStart >= TIME_SLICE) {
+					onProgress?.({ added, total })
+					await yieldToEventLoop()
+					signal?.throwIfAborted()
+					if (this.#suggester != null) {
+						// populated synchronously in the meantime
+						return
+					}
+					sliceStart = performance.now()
+				}
+			}
+
+			this.#finishSuggester(suggester, unsuggestible)
+			this.#suggester = suggester
+			onProgress?.({ added: total, total })
+		} finally {
+			this.#partialSuggester = null
+			// suggestions made in the meantime used the partial BK-Tree
+			this.#suggestionCache.clear()
+		}
+	}
+
+	/**
+	 * Get suggestions for a word.
+	 *
+	 * If `options.maxDist` is < 1, it will be set to that fraction of the input word's length.
+	 *
+	 * Words are searched for case-insensitively. If the input word is in title case or uppercase, the suggestions are
+	 * too, except for words with the `KEEPCASE` flag.
+	 *
+	 * With a language model, `options.context` re-ranks the suggestions by how likely they are in context.
+	 *
+	 * @param word The word to get suggestions for.
+	 * @param options Options for suggesting.
+	 * @returns The suggestions as an array of strings.
+	 */
+	suggest(word: string, options?: Partial<SuggestOptions>): string[] {
+		return this.#suggest(word, options).map(({ word }) => applyConversions(word, this.#outputConversions))
+	}
+
+	/**
+	 * Get suggestions for a word, along with their distances from it, how confident they are, and why they were
+	 * proposed. The suggestions are the same as those from `suggest`, in the same order.
+	 *
+	 * @param word The word to get suggestions for.
+	 * @param options Options for suggesting.
+	 * @returns The suggestions.
+	 */
+	suggestDetailed(word: string, options?: Partial<SuggestOptions>): DetailedSuggestion[] {
+		const input = this.#convertInput(word)
+
+		return this.#suggest(word, options).map(({ word: suggestion, reason }) => ({
+			word: applyConversions(suggestion, this.#outputConversions),
+			levenshteinDistance: levenshteinDistance(suggestion, input),
+			damerauDistance: damerauDistance(suggestion, input),
+			confidence: Math.max(0, 1 - this.#suggestionCost(input, suggestion, reason) / input.length),
+			reason,
+		}))
+	}
+
+	/**
+	 * Cost of the edits from a word to a suggestion for it, where edits explained by the reason are cheap and other edits
+	 * are costed by keyboard-aware edit distance.
+	 *
+	 * @param word The word, in the dictionary's internal form.
+	 * @param suggestion The suggestion.
+	 * @param reason Why the suggestion was proposed.
+	 */
+	#suggestionCost(word: string, suggestion: string, reason: SuggestionReason): number {
+		const lowerWord = word.toLowerCase()
+		const lowerSuggestion = suggestion.toLowerCase()
+
+		return reason === 'case'
+			? CASE_CHANGE_COST
+			: reason === 'replacement'
+			? REPLACEMENT_COST
+			: reason === 'split'
+			? SPLIT_COST
+			: reason === 'correction'
+			? CORRECTION_COST
+			: reason === 'editDistance'
+			? this.#weightedDistance(lowerSuggestion, lowerWord)
+			: damerauDistance(lowerSuggestion, lowerWord) * RELATED_EDIT_COST
+	}
+
+	#suggest(word: string, options?: Partial<SuggestOptions>): { word: string; reason: SuggestionReason }[] {
+		const opts = { ...defaultSuggestOptions, ...options }
+		const { limit, context } = opts
+		let { maxDist } = opts
+
+		word = this.#convertInput(word)
+
+		if (word.length === 0) {
+			return []
+		}
+
+		maxDist = word.length === 1
+			? 1
+			: maxDist < 1
+			? Math.min(word.length - 1, Math.ceil(word.length * maxDist))
+			: maxDist
+
+		// search case-insensitively, then re-apply the word's casing to the suggestions (as with a sentence-initial word)
+		const casing = detectCasing(word)
+		const lowerWord = word.toLowerCase()
+
+		const partialSuggester = this.#suggester == null ? this.#partialSuggester : null
+		const suggester = partialSuggester ?? this.#getSuggester()
+		const corrections = [...this.#corrections.get(lowerWord) ?? []]
+			.sort(([, a], [, b]) => b - a)
+			.map(([correction]) => correction)
+			.filter((correction) => correction.split(' ').every((w) => this.check(w)))
+		const replacements = this.#replacementSuggestions(lowerWord)
+		const splits = this.#splitSuggestions(lowerWord)
+		const mapped = this.#mapSuggestions(lowerWord)
+		const candidates = new Set([
+			...mapped,
+			...(partialSuggester == null ? [] : this.#editSuggestions(lowerWord)),
+			// also query the word as it is, to find words whose dictionary form isn't lowercase (such as acronyms)
+			...[...new Set([lowerWord, word])]
+				.flatMap((query) => suggester.query(query, maxDist))
+				.filter((x) => this.#lookup(x) !== undefined),
+		])
+		const notReplacement = (x: string) => !replacements.includes(x)
+		const ranked = [
+			...corrections,
+			...replacements,
+			...this.#placeSplits(
+				lowerWord,
+				suggester.rank(lowerWord, [...candidates].filter(notReplacement)),
+				suggester.rank(lowerWord, splits.filter(notReplacement)),
+			),
+		]
+
+		const suggestions = new Map<string, SuggestionReason>()
+		for (const x of ranked) {
+			if (!this.#isSuggestible(x)) {
+				continue
+			}
+			const cased = this.#hasFlag(x, 'KEEPCASE') ? x : applyCasing(x, casing)
+			if (!suggestions.has(cased)) {
+				suggestions.set(cased, this.#suggestionReason(word, x, { replacements, splits, mapped, corrections }))
+			}
+		}
+
+		let results = [...suggestions].map(([suggestion, reason]) => ({ word: suggestion, reason }))
+		const model = this.#languageModel
+		if (model != null && context != null) {
+			results = this.#rankInContext(model, word, results, context)
+		}
+
+		return results.slice(0, limit ?? undefined)
+	}
+
+	/**
+	 * Places split suggestions after the dictionary words at the same or a lower Damerau distance, as Hunspell does.
+	 *
+	 * @param lowerWord The lowercased word the suggestions are for.
+	 * @param ranked The ranked dictionary words.
+	 * @param splits The ranked split suggestions.
+	 * @returns The dictionary words with the splits placed among them.
+	 */
+	#placeSplits(lowerWord: string, ranked: string[], splits: string[]): string[] {
+		const distances = ranked.map((x) => damerauDistance(x.toLowerCase(), lowerWord))
+		const placed = ranked.map((x) => [x])
+		const before: string[] = []
+		for (const split of splits) {
+			const distance = damerauDistance(split, lowerWord)
+			const index = distances.findLastIndex((d) => d <= distance)
+			if (index === -1) {
+				before.push(split)
+			} else {
+				placed[index].push(split)
+			}
+		}
+		return [...before, ...placed.flat()]
+	}
+
+	/**
+	 * Re-ranks suggestions by how likely each is to be the intended word, weighing how likely it is in context according
+	 * to the language model against how unlikely its edits are as a typo.
+	 *
+	 * @param model The language model.
+	 * @param word The word the suggestions are for.
+	 * @param suggestions The suggestions, as ranked without context.
+	 * @param context Text before and after the word.
+	 * @returns The re-ranked suggestions, where ties keep their order.
+	 */
+	#rankInContext(
+		model: LanguageModel,
+		word: string,
+		suggestions: { word: string; reason: SuggestionReason }[],
+		context: SuggestionContext,
+	): { word: string; reason: SuggestionReason }[] {
+		const contextLength = Math.max(model.order - 1, 0)
+		const beforeWords = this.#contextWords(context.before)
+		const before = beforeWords.slice(Math.max(beforeWords.length - contextLength, 0))
+		const after = this.#contextWords(context.after).slice(0, contextLength)
+
+		return suggestions
+			.map((suggestion) => ({
+				suggestion,
+				score: this.#contextScore(model, before, suggestion.word.split(' '), after) -
+					this.#suggestionCost(word, suggestion.word, suggestion.reason) * LOG_LIKELIHOOD_PER_COST,
+			}))
+			.sort((a, b) => b.score - a.score)
+			.map(({ suggestion }) => suggestion)
+	}
+
+	/** Splits context text into words, as for checking text. */
+	#contextWords(text: string): string[] {
+		return tokenize(text, { wordChars: this.#flags.WORDCHARS ?? '' }).map(({ word }) => word)
+	}
+
+	/**
+	 * Scores how likely some words are between the words before and after them, according to a language model.
+	 *
+	 * @param model The language model.
+	 * @param before The words before.
+	 * @param words The words, in the dictionary's internal form.
+	 * @param after The words after.
+	 * @returns The logarithm of the score.
+	 */
+	#contextScore(model: LanguageModel, before: string[], words: string[], after: string[]): number {
+		const converted = words.map((w) => applyConversions(w, this.#outputConversions))
+		return model.scoreSequence(before, [...converted, ...after])
+	}
+
+	/**
+	 * Explains a suggestion, giving the most specific reason that applies.
+	 *
+	 * @param word The word the suggestion is for.
+	 * @param suggestion The suggestion.
+	 * @param generated The suggestions generated by the `REP` replacement table, by splitting, and by the `MAP` table,
+	 * along with the recorded corrections.
+	 */
+	#suggestionReason(
+		word: string,
+		suggestion: string,
+		{ replacements, splits, mapped, corrections }: Record<
+			'replacements' | 'splits' | 'mapped' | 'corrections',
+			string[]
+		>,
+	): SuggestionReason {
+		const lowerWord = word.toLowerCase()
+		const lowerSuggestion = suggestion.toLowerCase()
+
+		if (lowerSuggestion === lowerWord) return 'case'
+		if (collapseDoubledLetters(lowerSuggestion) === collapseDoubledLetters(lowerWord)) return 'doubledLetter'
+		if (replacements.includes(suggestion)) return 'replacement'
+		if (splits.includes(suggestion)) return 'split'
+		if (mapped.includes(suggestion)) return 'map'
+		if (corrections.includes(suggestion)) return 'correction'
+		return 'editDistance'
+	}
+
+	/**
+	 * Converts input using the `ICONV` table, then undoes the `OCONV` table so that output (such as suggestions) can be
+	 * passed back in as input.
+	 *
+	 * @param word The input word.
+	 * @returns The word in the dictionary's internal form.
+	 */
+	#convertInput(word: string): string {
+		word = applyConversions(word, this.#inputConversions)
+		return applyConversions(word, this.#reverseOutputConversions)
+	}
+
+	/**
+	 * Whether a word may be offered as a suggestion, i.e. it isn't flagged with `NOSUGGEST` or `FORBIDDENWORD`.
+	 *
+	 * @param word The word in question.
+	 * @param ruleSets The word's flags, if already looked up.
+	 */
+	#isSuggestible(word: string, ruleSets = this.#lookup(word)): boolean {
+		const wordFlags = ruleSets?.flat() ?? []
+		return !this.#hasFlag(word, 'NOSUGGEST', wordFlags) && !this.#hasFlag(word, 'FORBIDDENWORD', wordFlags)
+	}
 
-	removeWord(word: string): void {
-		delete this.#dictionaryTable[word]
+	/**
+	 * Generates suggestions by applying the `REP` replacement table, which lists common misspellings (typically
+	 * phonetic ones) that may be well beyond the edit distance used for querying the BK-Tree. Where a replacement
+	 * includes a space, each of the resulting words must be correct.
+	 *
+	 * @param word The word to get suggestions for.
+	 * @returns The suggestions, in replacement table order.
+	 */
+	#replacementSuggestions(word: string): string[] {
+		const suggestions = new Set<string>()
 
-		this.#suggestionCache.clear()
+		for (const candidate of this.#applyReplacements(word)) {
+			if (candidate !== word && candidate.split(' ').every((w) => this.check(w))) {
+				suggestions.add(candidate)
+			}
+		}
+
+		return [...suggestions]
 	}
 
-	addWord(word: string, flags?: string[][]): void {
-		this.#dictionaryTable[word] = flags ?? null
+	/**
+	 * Applies each replacement in the `REP` replacement table at each position where its pattern matches, one at a time.
+	 *
+	 * A `^` or `$` in a pattern anchors it to the start or end of the word, and an `_` in a replacement stands for a
+	 * space.
+	 *
+	 * @param word The word to apply the replacements to.
+	 * @returns The replaced words, in replacement table order.
+	 */
+	*#applyReplacements(word: string): Generator<string> {
+		for (const [pattern, replacement] of this.#replacementTable) {
+			const anchoredStart = pattern.startsWith('^')
+			const anchoredEnd = pattern.endsWith('$') && pattern.length > 1
+			const search = pattern.slice(anchoredStart ? 1 : 0, anchoredEnd ? -1 : undefined)
+			if (!search) {
+				continue
+			}
 
-		// If this.#bktree is null, we don't need to add now as it will be added at initialization via `#getBkTree`
-		// upon first call to `suggest` or `initBkTree`
-		this.#bktree?.addWord(word)
+			for (let i = word.indexOf(search); i !== -1; i = word.indexOf(search, i + 1)) {
+				if (anchoredStart && i !== 0) break
+				if (anchoredEnd && i + search.length !== word.length) continue
 
-		this.#suggestionCache.clear()
+				yield word.slice(0, i) + replacement.replaceAll('_', ' ') + word.slice(i + search.length)
+			}
+		}
 	}
 
-	get dictionaryTable(): Record<string, string[][] | null> {
-		return this.#dictionaryTable
-	}
+	/**
+	 * Generates suggestions by splitting the word in two with a space, where both parts are correct words (`a lot` for
+	 * `alot`). Each part must be a whole word according to the dictionary's `WORDCHARS`, and mustn't contain a `BREAK`
+	 * pattern, as words are already broken there. The second part must be longer than one character, as splitting off a
+	 * final letter is rarely what was meant (`info r` for `infor`). Correct words aren't split.
+	 *
+	 * @param word The word to get suggestions for.
+	 * @returns The suggestions, which are ranked along with those within the maximum edit distance.
+	 */
+	#splitSuggestions(word: string): string[] {
+		if (this.check(word)) {
+			return []
+		}
 
-	get words(): string[] {
-		return Object.keys(this.#dictionaryTable)
-	}
+		const wordChars = this.#flags.WORDCHARS ?? ''
+		const patterns = this.#breakPatterns.filter((p) => p && !p.startsWith('^') && !p.endsWith('$'))
+		const isSplittablePart = (part: string) => {
+			const tokens = tokenize(part, { wordChars })
+			return tokens.length === 1 && tokens[0].word === part &&
+				!patterns.some((p) => part.includes(p)) &&
+				this.check(part) && this.#isSuggestible(part)
+		}
 
-	#bktree: BkTree | null = null
-	#getBkTree() {
-		return this.#bktree ??= new BkTree(this.words)
+		const suggestions: string[] = []
+		for (let i = 1; i < word.length - 1; ++i) {
+			const parts = [word.slice(0, i), word.slice(i)]
+			if (parts.every(isSplittablePart)) {
+				suggestions.push(parts.join(' '))
+			}
+		}
+
+		return suggestions
 	}
 
 	/**
-	 * Populates the BK-Tree, which can be a costly operation.
+	 * Generates suggestions by single edits to the word (deleting, transposing, or substituting or inserting `TRY`
+	 * characters), which is cheap enough to use while the BK-Tree isn't yet populated.
 	 *
-	 * The BK-Tree is automatically populated on the first call to `suggest`, but you can call this function explicitly
-	 * to give further control over when population happens.
+	 * @param word The word to get suggestions for.
+	 * @returns The suggestions.
 	 */
-	initBkTree(): void {
-		this.#getBkTree()
+	#editSuggestions(word: string): string[] {
+		const chars = [...new Set(this.#flags.TRY ?? DEFAULT_TRY_CHARS)] as string[]
+		const edits = new Set<string>()
+
+		for (let i = 0; i <= word.length; ++i) {
+			const before = word.slice(0, i)
+			const after = word.slice(i)
+			if (after) {
+				edits.add(before + after.slice(1))
+			}
+			if (after.length > 1) {
+				edits.add(before + after[1] + after[0] + after.slice(2))
+			}
+			for (const char of chars) {
+				edits.add(before + char + after)
+				if (after) {
+					edits.add(before + char + after.slice(1))
+				}
+			}
+		}
+		edits.delete(word)
+
+		return [...edits].filter((edit) => this.#lookup(edit) !== undefined)
 	}
 
 	/**
-	 * Get suggestions for a word.
-	 *
-	 * If `options.maxDist` is < 1, it will be set to that fraction of the input word's length.
+	 * Generates suggestions by substituting characters for their related characters in the `MAP` table, e.g. accented
+	 * and unaccented forms of the same letter. These substitutions are treated as near-free, so their results may be well
+	 * beyond the edit distance used for querying the BK-Tree.
 	 *
 	 * @param word The word to get suggestions for.
-	 * @param options Options for suggesting.
-	 * @returns The suggestions as an array of strings.
+	 * @returns The suggestions.
 	 */
-	suggest(word: string, options?: Partial<SuggestOptions>): string[] {
-		const opts = { ...defaultSuggestOptions, ...options }
-		const { limit } = opts
-		let { maxDist } = opts
-
-		if (word.length === 0) {
+	#mapSuggestions(word: string): string[] {
+		if (!this.#mapTable.length) {
 			return []
 		}
+		const suggestions = new Set<string>()
 
-		maxDist = word.length === 1
-			? 1
-			: maxDist < 1
-			? Math.min(word.length - 1, Math.ceil(word.length * maxDist))
-			: maxDist
+		// bound the search, as the number of combinations is exponential in the number of mapped characters
+		let budget = MAX_MAP_CANDIDATES
+		const recurse = (candidate: string, i: number) => {
+			if (budget <= 0) {
+				return
+			}
+			if (i >= word.length) {
+				--budget
+				if (candidate !== word && this.check(candidate)) {
+					suggestions.add(candidate)
+				}
+				return
+			}
+
+			let mapped = false
+			for (const group of this.#mapTable) {
+				for (const from of group) {
+					if (!from || !word.startsWith(from, i)) continue
+					mapped = true
+					for (const to of group) {
+						recurse(candidate + to, i + from.length)
+					}
+				}
+			}
+			if (!mapped) {
+				recurse(candidate + word[i], i + 1)
+			}
+		}
+		recurse('', 0)
+
+		return [...suggestions]
+	}
 
-		return this.#getBkTree().query(word, maxDist)
-			.filter((x) => x in this.#dictionaryTable)
-			.slice(0, limit ?? undefined)
+	/**
+	 * Replaces each character (or sequence) in the `MAP` table with the first member of its group, so that words that
+	 * differ only by related characters are normalized to the same thing.
+	 */
+	#foldMapRelated(str: string): string {
+		return str.replaceAll(this.#mapFoldRegex, (m) => this.#mapRepresentatives.get(m)!)
 	}
 
 	#setup() {
 		this.#rules = this.#parseAff(this.#affData)
+		this.#setupDerivedTables()
+		this.#setupCompoundRuleCodes()
+		this.#dictionaryTable = this.#parseDic(this.#wordsData)
+		this.#setupCompoundRules()
+	}
+
+	#setupCompoundRuleCodes() {
 		// Save the rule codes that are used in compound rules.
 		this.#compoundRuleCodes = Object.create(null)
 
@@ -177,8 +1498,9 @@ export default class Typista {
 		if (this.#flags.ONLYINCOMPOUND != null) {
 			this.#compoundRuleCodes[this.#flags.ONLYINCOMPOUND] = []
 		}
-		this.#dictionaryTable = this.#parseDic(this.#wordsData)
+	}
 
+	#setupCompoundRules() {
 		// Get rid of any codes from the compound rule codes that are never used
 		// (or that were special regex characters).  Not especially necessary...
 		for (const k in this.#compoundRuleCodes) {
@@ -202,6 +1524,36 @@ export default class Typista {
 		}
 	}
 
+	/**
+	 * Sets up the lookup tables that are derived from the tables parsed from the .aff file.
+	 */
+	#setupDerivedTables() {
+		this.#reverseOutputConversions = this.#outputConversions.map(([from, to]) => [to, from])
+
+		this.#mapRepresentatives.clear()
+		for (const [representative, ...members] of this.#mapTable) {
+			for (const member of members) {
+				this.#mapRepresentatives.set(member, representative)
+			}
+		}
+		const mapAlternatives = [...this.#mapRepresentatives.keys()]
+			.sort((a, b) => b.length - a.length)
+			.map((x) => x.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+		this.#mapFoldRegex = new RegExp(mapAlternatives.join('|') || '(?!)', 'gu')
+
+		this.#prefixEntries.clear()
+		this.#suffixEntries.clear()
+		for (const rule of Object.values(this.#rules)) {
+			const entriesByAdd = rule.type === 'SFX' ? this.#suffixEntries : this.#prefixEntries
+			for (const entry of rule.entries) {
+				if (!entriesByAdd.has(entry.add)) {
+					entriesByAdd.set(entry.add, [])
+				}
+				entriesByAdd.get(entry.add)!.push(entry)
+			}
+		}
+	}
+
 	/**
 	 * Parse the rules out from a .aff file.
 	 *
@@ -285,6 +1637,61 @@ export default class Typista {
 
 					break
 				}
+				case 'BREAK': {
+					numEntries = parseInt(definitionParts[1], 10)
+					this.#breakTable = []
+					for (let j = i + 1, _jlen = i + 1 + numEntries; j < _jlen; ++j) {
+						line = lines[j]
+						lineParts = line.split(/\s+/)
+						this.#breakTable.push(lineParts[1])
+					}
+					i += numEntries
+
+					break
+				}
+				case 'MAP': {
+					numEntries = parseInt(definitionParts[1], 10)
+					for (let j = i + 1, _jlen = i + 1 + numEntries; j < _jlen; ++j) {
+						line = lines[j]
+						lineParts = line.split(/\s+/)
+						// multi-character sequences are parenthesized, e.g. `MAP ß(ss)`
+						this.#mapTable.push(
+							lineParts[1].match(/\([^)]*\)|./gu)!.map((x) => x.replaceAll(/^\(|\)$/g, '')),
+						)
+					}
+					i += numEntries
+
+					break
+				}
+				case 'ICONV':
+				case 'OCONV': {
+					numEntries = parseInt(definitionParts[1], 10)
+					const table = ruleType === 'ICONV' ? this.#inputConversions : this.#outputConversions
+					for (let j = i + 1, _jlen = i + 1 + numEntries; j < _jlen; ++j) {
+						line = lines[j]
+						lineParts = line.trim().split(/\s+/)
+						if (lineParts.length === 3) {
+							table.push([lineParts[1], lineParts[2]])
+						}
+					}
+					i += numEntries
+
+					break
+				}
+				case 'CHECKCOMPOUNDPATTERN': {
+					numEntries = parseInt(definitionParts[1], 10)
+					for (let j = i + 1, _jlen = i + 1 + numEntries; j < _jlen; ++j) {
+						line = lines[j]
+						lineParts = line.trim().split(/\s+/)
+						// Patterns with a replacement (the optional third field) aren't supported.
+						if (lineParts.length === 3) {
+							this.#compoundPatterns.push({ end: lineParts[1], begin: lineParts[2] })
+						}
+					}
+					i += numEntries
+
+					break
+				}
 				case 'REP': {
 					lineParts = line.split(/\s+/)
 					if (lineParts.length === 3) {
@@ -302,104 +1709,335 @@ export default class Typista {
 
 					break
 				}
-				default: {
-					// SET, TRY, MAP, ICONV, WORDCHARS, NOSUGGEST, KEY, FORBIDDENWORD, CIRCUMFIX, BREAK, COMPOUNDFLAG, etc.
-					this.#flags[ruleType] = definitionParts[1]
+				default: {
+					// SET, TRY, WORDCHARS, NOSUGGEST, KEY, FORBIDDENWORD, CIRCUMFIX, COMPOUNDFLAG, etc.
+					this.#flags[ruleType] = definitionParts[1]
+				}
+			}
+		}
+		return rules
+	}
+
+	/**
+	 * Removes comments.
+	 *
+	 * @param line A line from an affix file.
+	 * @return The cleaned-up line.
+	 */
+	#removeAffixComments(line: string): string {
+		// This used to remove any string starting with '#' up to the end of the line,
+		// but some COMPOUNDRULE definitions include '#' as part of the rule.
+		// So, only remove lines that begin with a comment, optionally preceded by whitespace.
+		if (line.match(/^\s*#/)) {
+			return ''
+		}
+		return line
+	}
+
+	/**
+	 * Parses the words out from the .dic file.
+	 *
+	 * @param data The data from the dictionary file.
+	 * @returns The lookup table containing all of the words and
+	 *                 word forms from the dictionary.
+	 */
+	#parseDic(data: string): Record<string, string[][] | null> {
+		data = this.#removeDicComments(data)
+		const lines = data.split(/\r?\n/)
+		const dictionaryTable: Record<string, string[][] | null> = Object.create(null)
+		this.#stemTable = Object.create(null)
+		// The first line is the number of words in the dictionary.
+		for (let i = 1, _len = lines.length; i < _len; ++i) {
+			this.#parseDicLine(lines[i], dictionaryTable)
+		}
+		return dictionaryTable
+	}
+
+	/**
+	 * Parses a line of the .dic file, adding its word and word forms to a lookup table.
+	 *
+	 * @param line The line, with comments already removed.
+	 * @param dictionaryTable The lookup table.
+	 */
+	#parseDicLine(line: string, dictionaryTable: Record<string, string[][] | null>) {
+		if (!line) {
+			// Ignore empty lines.
+			return
+		}
+		const parts = line.split('/', 2)
+		const word = parts[0]
+		if (parts.length > 1) {
+			let ruleCodesArray = this.#dicRuleCodes.get(parts[1])
+			if (ruleCodesArray == null) {
+				ruleCodesArray = this.#parseRuleCodes(parts[1])
+				this.#dicRuleCodes.set(parts[1], ruleCodesArray)
+			}
+			const needsAffix = this.#flags.NEEDAFFIX != null && ruleCodesArray.includes(this.#flags.NEEDAFFIX)
+			// With lazy expansion, only the stems are stored, and the affixed forms are only generated when looking up words
+			// that could be one of them. With eager expansion, stems are in the dictionary table along with their affixed
+			// forms, except for stems that need an affix.
+			if (this.#affixExpansion === 'lazy' || needsAffix) {
+				this.#addStem(word, ruleCodesArray)
+			}
+			if (this.#affixExpansion === 'eager') {
+				// Save the ruleCodes for compound word situations.
+				if (!needsAffix) {
+					addToTable(dictionaryTable, word, ruleCodesArray)
+				}
+				for (const form of this.#expand(word, ruleCodesArray)) {
+					addToTable(dictionaryTable, form.word, form.flags)
+				}
+			}
+			for (const code of ruleCodesArray) {
+				if (code in this.#compoundRuleCodes) {
+					this.#compoundRuleCodes[code].push(word)
+				}
+			}
+		} else if (this.#affixExpansion === 'lazy') {
+			this.#addStem(word.trim(), [])
+		} else {
+			addToTable(dictionaryTable, word.trim(), [])
+		}
+	}
+
+	#addStem(word: string, ruleCodes: string[]) {
+		if (!(word in this.#stemTable)) {
+			this.#stemTable[word] = []
+		}
+		this.#stemTable[word].push(ruleCodes)
+	}
+
+	/**
+	 * Gets the sets of flags that a stem has in the .dic file. With eager affix expansion, these mostly come from the
+	 * dictionary table, so they may also include the flags inherited by an affixed form of another stem that's the same
+	 * word.
+	 *
+	 * @param stem The stem.
+	 * @returns The sets of flags, which is empty if the stem isn't in the .dic file or has no flags.
+	 */
+	#stemRuleSets(stem: string): string[][] {
+		if (this.#affixExpansion === 'lazy') {
+			return this.#stemTable[stem] ?? []
+		}
+		return this.#stemTable[stem] ?? this.#dictionaryTable[stem] ?? []
+	}
+
+	/**
+	 * Generates the affixed forms of a stem.
+	 *
+	 * @param word The stem.
+	 * @param ruleCodesArray The stem's flags.
+	 * @returns The complete forms, each with the flags it inherits from the stem and the applied affixes.
+	 */
+	#expand(word: string, ruleCodesArray: string[]): ExpandedForm[] {
+		const forms: ExpandedForm[] = []
+		const inheritedFlags = this.#inheritedFlags(ruleCodesArray)
+		const addForm = (form: AffixedForm) => {
+			if (form.unpairedCircumfix == null) {
+				forms.push({
+					word: form.word,
+					flags: [...inheritedFlags, ...this.#inheritedFlags(form.flags)],
+					compoundFlags: this.#inheritedFlags(form.flags, AFFIX_COMPOUND_FLAGS),
+					affixes: form.affixes,
+				})
+			}
+		}
+		// For each affix rule, generate that form of the word.
+		for (let j = 0, _jlen = ruleCodesArray.length; j < _jlen; ++j) {
+			const code = ruleCodesArray[j]
+			const rule = this.#rules[code]
+			if (!rule) {
+				continue
+			}
+			const newForms = this.#applyRule({ word, flags: [], unpairedCircumfix: null, affixes: [] }, code)
+			for (let ii = 0, _iilen = newForms.length; ii < _iilen; ++ii) {
+				const newForm = newForms[ii]
+				addForm(newForm)
+				if (rule.combineable) {
+					for (let k = j + 1; k < _jlen; ++k) {
+						const combineCode = ruleCodesArray[k]
+						const combineRule = this.#rules[combineCode]
+						if (combineRule && combineRule.combineable && (rule.type != combineRule.type)) {
+							for (const otherNewForm of this.#applyRule(newForm, combineCode)) {
+								addForm(otherNewForm)
+							}
+						}
+					}
+				}
+			}
+		}
+		return forms
+	}
+
+	/**
+	 * Generates the words in the dictionary along with their flags, not including the personal dictionaries. With lazy
+	 * affix expansion, the affixed forms of each stem are generated in turn, so they're never all kept in memory.
+	 *
+	 * @returns For each word in the dictionary table, or each stem with lazy affix expansion, the entries it gives rise
+	 * to. A word may have several entries, each with one of its sets of flags, and may be given rise to more than once.
+	 */
+	*#dictionaryEntries(): Generator<{ word: string; flags: string[] }[]> {
+		if (this.#affixExpansion === 'eager') {
+			for (const [word, ruleSets] of Object.entries(this.#dictionaryTable)) {
+				yield (ruleSets ?? [[]]).map((flags) => ({ word, flags }))
+			}
+			return
+		}
+
+		for (const [stem, ruleSets] of Object.entries(this.#stemTable)) {
+			const entries: { word: string; flags: string[] }[] = []
+			for (const ruleCodes of ruleSets) {
+				if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+					entries.push({ word: stem, flags: ruleCodes })
+				}
+				for (const form of this.#expand(stem, ruleCodes)) {
+					entries.push({ word: form.word, flags: form.flags })
+				}
+			}
+			yield entries.filter(({ word }) => !this.#modifiedWords.has(word))
+		}
+		// words added with `addWord`
+		for (const [word, ruleSets] of Object.entries(this.#dictionaryTable)) {
+			yield (ruleSets ?? [[]]).map((flags) => ({ word, flags }))
+		}
+	}
+
+	/** Number of items generated by `#dictionaryEntries`. */
+	get #dictionaryEntryCount(): number {
+		const count = Object.keys(this.#dictionaryTable).length
+		return this.#affixExpansion === 'eager' ? count : count + Object.keys(this.#stemTable).length
+	}
+
+	/** Words that have been added to or ignored by any of the personal dictionaries. */
+	#personalDictionaryWords(): Set<string> {
+		return new Set(PERSONAL_DICTIONARY_LAYERS.flatMap((layer) => [
+			...Object.keys(this.#personalDictionaryTables[layer]),
+			...this.#personalDictionaries[layer].ignored,
+		]))
+	}
+
+	/**
+	 * Looks up a word's flags in the personal dictionaries, falling back to the dictionary itself.
+	 *
+	 * @param word The word to look up.
+	 * @returns The word's sets of flags, `null` if it has none, or `undefined` if it isn't in the dictionary.
+	 */
+	#lookup(word: string): string[][] | null | undefined {
+		for (let i = PERSONAL_DICTIONARY_LAYERS.length - 1; i >= 0; --i) {
+			const layer = PERSONAL_DICTIONARY_LAYERS[i]
+			if (word in this.#personalDictionaryTables[layer]) {
+				return this.#personalDictionaryTables[layer][word]
+			}
+			if (this.#personalDictionaries[layer].ignored.has(word)) {
+				return undefined
+			}
+		}
+		return this.#lookupInDictionary(word)
+	}
+
+	/**
+	 * Looks up a word's flags in the dictionary itself. With lazy affix expansion, this strips affixes from the word to
+	 * find the stems it could be a form of, then generates their affixed forms to check whether it really is one.
+	 *
+	 * @param word The word to look up.
+	 * @returns The word's sets of flags, `null` if it has none, or `undefined` if it isn't in the dictionary.
+	 */
+	#lookupInDictionary(word: string): string[][] | null | undefined {
+		if (this.#affixExpansion === 'eager' || this.#modifiedWords.has(word)) {
+			return this.#dictionaryTable[word]
+		}
+		if (this.#lookupCache.has(word)) {
+			return this.#lookupCache.get(word)
+		}
+
+		let found = false
+		const ruleSets: string[][] = []
+		for (const ruleCodes of this.#stemTable[word] ?? []) {
+			if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+				found = true
+				if (ruleCodes.length > 0) {
+					ruleSets.push(ruleCodes)
+				}
+			}
+		}
+		for (const { form } of this.#derivations(word)) {
+			found = true
+			if (form.flags.length > 0) {
+				ruleSets.push(form.flags)
+			}
+		}
+
+		const result = found ? (ruleSets.length > 0 ? ruleSets : null) : undefined
+		this.#lookupCache.set(word, result)
+		return result
+	}
+
+	/**
+	 * Finds the affixed forms of stems in the .dic file that are the same as a word, by stripping affixes from the word
+	 * and then generating the affixed forms of any resulting stems.
+	 *
+	 * @param word The word.
+	 * @returns The stems, their flags, and the forms.
+	 */
+	#derivations(word: string): { stem: string; ruleCodes: string[]; form: ExpandedForm }[] {
+		const derivations = []
+		for (const stem of this.#candidateStems(word)) {
+			for (const ruleCodes of this.#stemRuleSets(stem)) {
+				const key = `${stem}/${ruleCodes.join(',')}`
+				let forms = this.#expansionCache.get(key)
+				if (forms == null) {
+					forms = this.#expand(stem, ruleCodes)
+					this.#expansionCache.set(key, forms)
+				}
+				for (const form of forms) {
+					if (form.word === word) {
+						derivations.push({ stem, ruleCodes, form })
+					}
 				}
 			}
 		}
-		return rules
+		return derivations
 	}
 
 	/**
-	 * Removes comments.
-	 *
-	 * @param line A line from an affix file.
-	 * @return The cleaned-up line.
+	 * Gets the characters that an affix entry strips from the word it's applied to.
 	 */
-	#removeAffixComments(line: string): string {
-		// This used to remove any string starting with '#' up to the end of the line,
-		// but some COMPOUNDRULE definitions include '#' as part of the rule.
-		// So, only remove lines that begin with a comment, optionally preceded by whitespace.
-		if (line.match(/^\s*#/)) {
-			return ''
-		}
-		return line
+	#strippedString(entry: AffixEntry): string {
+		// For suffixes, `remove` is a regex of the stripped characters anchored with `$`
+		return typeof entry.remove === 'string' ? entry.remove : entry.remove?.source.slice(0, -1) ?? ''
 	}
 
 	/**
-	 * Parses the words out from the .dic file.
+	 * Gets the strings that a word could be derived from by affixes, by undoing up to `MAX_STRIPPED_AFFIXES` of them.
 	 *
-	 * @param data The data from the dictionary file.
-	 * @returns The lookup table containing all of the words and
-	 *                 word forms from the dictionary.
+	 * @param word The word.
+	 * @returns The candidates, including the word itself, most of which won't be stems in the dictionary.
 	 */
-	#parseDic(data: string): Record<string, string[][] | null> {
-		data = this.#removeDicComments(data)
-		const lines = data.split(/\r?\n/)
-		const dictionaryTable: Record<string, string[][] | null> = Object.create(null)
-		const addWord = (word: string, rules: string[]) => {
-			// Some dictionaries will list the same word multiple times with different rule sets.
-			if (!(word in dictionaryTable)) {
-				dictionaryTable[word] = null
-			}
-			if (rules.length > 0) {
-				if (dictionaryTable[word] == null) {
-					dictionaryTable[word] = []
+	#candidateStems(word: string): Set<string> {
+		const candidates = new Set([word])
+		let bases = [word]
+		for (let depth = 0; depth < MAX_STRIPPED_AFFIXES && bases.length > 0; ++depth) {
+			const newBases: string[] = []
+			const addCandidate = (candidate: string, entry: AffixEntry) => {
+				// The entry's condition must hold for the word it's applied to.
+				if (!candidates.has(candidate) && (!entry.match || entry.match.test(candidate))) {
+					candidates.add(candidate)
+					newBases.push(candidate)
 				}
-				dictionaryTable[word].push(rules)
-			}
-		}
-		// The first line is the number of words in the dictionary.
-		for (let i = 1, _len = lines.length; i < _len; ++i) {
-			const line = lines[i]
-			if (!line) {
-				// Ignore empty lines.
-				continue
 			}
-			const parts = line.split('/', 2)
-			const word = parts[0]
-			// Now for each affix rule, generate that form of the word.
-			if (parts.length > 1) {
-				const ruleCodesArray = this.#parseRuleCodes(parts[1])
-				// Save the ruleCodes for compound word situations.
-				if (this.#flags.NEEDAFFIX == null || !ruleCodesArray.includes(this.#flags.NEEDAFFIX)) {
-					addWord(word, ruleCodesArray)
-				}
-				for (let j = 0, _jlen = ruleCodesArray.length; j < _jlen; ++j) {
-					const code = ruleCodesArray[j]
-					const rule = this.#rules[code]
-					if (rule) {
-						const newWords = this.#applyRule(word, rule)
-						for (let ii = 0, _iilen = newWords.length; ii < _iilen; ++ii) {
-							const newWord = newWords[ii]
-							addWord(newWord, [])
-							if (rule.combineable) {
-								for (let k = j + 1; k < _jlen; ++k) {
-									const combineCode = ruleCodesArray[k]
-									const combineRule = this.#rules[combineCode]
-									if (combineRule) {
-										if (combineRule.combineable && (rule.type != combineRule.type)) {
-											const otherNewWords = this.#applyRule(newWord, combineRule)
-											for (let iii = 0, _iiilen = otherNewWords.length; iii < _iiilen; ++iii) {
-												const otherNewWord = otherNewWords[iii]
-												addWord(otherNewWord, [])
-											}
-										}
-									}
-								}
-							}
-						}
+			for (const base of bases) {
+				for (let i = 0; i <= base.length; ++i) {
+					for (const entry of this.#prefixEntries.get(base.slice(0, i)) ?? []) {
+						addCandidate(this.#strippedString(entry) + base.slice(i), entry)
 					}
-					if (code in this.#compoundRuleCodes) {
-						this.#compoundRuleCodes[code].push(word)
+					for (const entry of this.#suffixEntries.get(base.slice(i)) ?? []) {
+						addCandidate(base.slice(0, i) + this.#strippedString(entry), entry)
 					}
 				}
-			} else {
-				addWord(word.trim(), [])
 			}
+			bases = newBases
 		}
-		return dictionaryTable
+		return candidates
 	}
 
 	/**
@@ -416,6 +2054,18 @@ export default class Typista {
 		return data
 	}
 
+	/**
+	 * Gets the flags that affixed forms of a stem inherit from it, such as `FORBIDDENWORD`.
+	 *
+	 * @param ruleCodes The stem's flags.
+	 * @param flags The flags that are inherited.
+	 */
+	#inheritedFlags(ruleCodes: string[], flags = INHERITED_FLAGS): string[] {
+		return flags
+			.filter((flag) => this.#flags[flag] != null && ruleCodes.includes(this.#flags[flag]))
+			.map((flag) => this.#flags[flag])
+	}
+
 	#parseRuleCodes(textCodes: string) {
 		if (!textCodes) {
 			return []
@@ -446,16 +2096,29 @@ export default class Typista {
 	/**
 	 * Applies an affix rule to a word.
 	 *
-	 * @param word The base word.
-	 * @param rule The affix rule.
-	 * @returns The new words generated by the rule.
+	 * @param form The base form, which is either a stem or the result of previously applied rules.
+	 * @param code The affix rule's flag.
+	 * @returns The new forms generated by the rule, including any that are incomplete due to an unpaired circumfix.
 	 */
-	#applyRule(word: string, rule: AffixRule): string[] {
+	#applyRule(form: AffixedForm, code: string): AffixedForm[] {
+		const { word } = form
+		const rule = this.#rules[code]
 		const entries = rule.entries
-		let newWords: string[] = []
+		let newForms: AffixedForm[] = []
 		for (let i = 0, _len = entries.length; i < _len; ++i) {
 			const entry = entries[i]
 			if (!entry.match || word.match(entry.match)) {
+				let unpaired = form.unpairedCircumfix
+				if (this.#flags.CIRCUMFIX != null && entry.continuationClasses?.includes(this.#flags.CIRCUMFIX)) {
+					if (unpaired == null) {
+						unpaired = rule.type
+					} else if (unpaired !== rule.type) {
+						unpaired = null
+					} else {
+						// A circumfix can only be completed by an affix of the other type.
+						continue
+					}
+				}
 				let newWord = word
 				if (entry.remove) {
 					newWord = newWord.replace(entry.remove, '')
@@ -465,12 +2128,18 @@ export default class Typista {
 				} else {
 					newWord = entry.add + newWord
 				}
-				newWords.push(newWord)
+				const newForm: AffixedForm = {
+					word: newWord,
+					flags: entry.continuationClasses ? [...form.flags, ...entry.continuationClasses] : form.flags,
+					unpairedCircumfix: unpaired,
+					affixes: [...form.affixes, code],
+				}
+				newForms.push(newForm)
 				if (entry.continuationClasses != null) {
 					for (let j = 0, _jlen = entry.continuationClasses.length; j < _jlen; ++j) {
-						const continuationRule = this.#rules[entry.continuationClasses[j]]
-						if (continuationRule) {
-							newWords = newWords.concat(this.#applyRule(newWord, continuationRule))
+						const continuationCode = entry.continuationClasses[j]
+						if (this.#rules[continuationCode]) {
+							newForms = newForms.concat(this.#applyRule(newForm, continuationCode))
 						}
 						/*
                         else {
@@ -483,7 +2152,7 @@ export default class Typista {
 				}
 			}
 		}
-		return newWords
+		return newForms
 	}
 
 	/**
@@ -500,7 +2169,11 @@ export default class Typista {
 			return false
 		}
 		// Remove leading and trailing whitespace
-		const trimmedWord = word.replace(/^\s\s*/, '').replace(/\s\s*$/, '')
+		const trimmedWord = this.#convertInput(word.replace(/^\s\s*/, '').replace(/\s\s*$/, ''))
+		if (this.#hasFlag(trimmedWord, 'FORBIDDENWORD')) {
+			// Forbidden words are rejected outright, rather than accepted as capitalization variants of other words.
+			return false
+		}
 		if (this.checkExact(trimmedWord)) {
 			return true
 		}
@@ -534,6 +2207,57 @@ export default class Typista {
 				return true
 			}
 		}
+		return this.#checkBreaks(trimmedWord)
+	}
+
+	/**
+	 * Checks whether a word that isn't in the dictionary consists of correct words joined by `BREAK` patterns, such as
+	 * hyphenated compounds. Patterns anchored with `^` or `$` are only broken off the start or end of the word.
+	 *
+	 * @param word The word to check.
+	 */
+	#checkBreaks(word: string): boolean {
+		const patterns = this.#breakPatterns.filter(Boolean)
+
+		// Limit recursion, as each part is checked with `check`, which breaks it further.
+		let numBreaks = 0
+		for (const pattern of patterns) {
+			for (let i = word.indexOf(pattern); i !== -1; i = word.indexOf(pattern, i + pattern.length)) {
+				if (++numBreaks >= MAX_BREAKS) {
+					return false
+				}
+			}
+		}
+
+		for (const pattern of patterns) {
+			if (pattern.length === 1 || pattern.length > word.length) {
+				continue
+			}
+			if (pattern.startsWith('^') && word.startsWith(pattern.slice(1))) {
+				if (this.check(word.slice(pattern.length - 1))) {
+					return true
+				}
+			}
+			if (pattern.endsWith('$') && word.endsWith(pattern.slice(0, -1))) {
+				if (this.check(word.slice(0, word.length - pattern.length + 1))) {
+					return true
+				}
+			}
+		}
+
+		for (const pattern of patterns) {
+			if (pattern.startsWith('^') || pattern.endsWith('$')) {
+				continue
+			}
+			for (const i of new Set([word.indexOf(pattern), word.lastIndexOf(pattern)])) {
+				if (i > 0 && i < word.length - pattern.length) {
+					if (this.check(word.slice(0, i)) && this.check(word.slice(i + pattern.length))) {
+						return true
+					}
+				}
+			}
+		}
+
 		return false
 	}
 
@@ -543,7 +2267,10 @@ export default class Typista {
 	 * @param word The word to check.
 	 */
 	checkExact(word: string): boolean {
-		const ruleCodes = this.#dictionaryTable[word]
+		const ruleCodes = this.#lookup(word)
+		if (this.#hasFlag(word, 'FORBIDDENWORD', ruleCodes?.flat())) {
+			return false
+		}
 		if (typeof ruleCodes === 'undefined') {
 			// Check if this might be a compound word.
 			if (this.#flags.COMPOUNDMIN != null && word.length >= this.#flags.COMPOUNDMIN) {
@@ -553,6 +2280,9 @@ export default class Typista {
 					}
 				}
 			}
+			if (this.#checkFlagCompound(word)) {
+				return true
+			}
 		} else if (ruleCodes == null) {
 			// a null (but not undefined) value for an entry in the dictionary table
 			// means that the word is in the dictionary but has no flags.
@@ -567,6 +2297,463 @@ export default class Typista {
 		return false
 	}
 
+	/**
+	 * Checks whether a word is a compound of dictionary words that are allowed in compounds by `COMPOUNDFLAG`, or by
+	 * `COMPOUNDBEGIN`, `COMPOUNDMIDDLE` and `COMPOUNDEND` for their respective positions.
+	 *
+	 * Each part must be at least `COMPOUNDMIN` long, there can be at most `COMPOUNDWORDMAX` parts, and the
+	 * `CHECKCOMPOUNDDUP`, `CHECKCOMPOUNDCASE`, `CHECKCOMPOUNDTRIPLE`, `CHECKCOMPOUNDREP` and `CHECKCOMPOUNDPATTERN`
+	 * restrictions apply.
+	 *
+	 * @param word The word to check.
+	 */
+	#checkFlagCompound(word: string): boolean {
+		if (
+			this.#flags.COMPOUNDFLAG == null && this.#flags.COMPOUNDBEGIN == null &&
+			this.#flags.COMPOUNDMIDDLE == null && this.#flags.COMPOUNDEND == null
+		) {
+			return false
+		}
+
+		const minLength = this.#flags.COMPOUNDMIN != null
+			? Math.max(1, parseInt(this.#flags.COMPOUNDMIN, 10))
+			: DEFAULT_COMPOUND_MIN
+		const maxParts = this.#flags.COMPOUNDWORDMAX != null ? parseInt(this.#flags.COMPOUNDWORDMAX, 10) : Infinity
+
+		if (word.length < minLength * 2) {
+			return false
+		}
+
+		if ('CHECKCOMPOUNDREP' in this.#flags) {
+			// Compounds that are a typical misspelling of a dictionary word are probably that misspelling.
+			for (const candidate of this.#applyReplacements(word)) {
+				if (this.#lookup(candidate) !== undefined) {
+					return false
+				}
+			}
+		}
+
+		// The fewest parts that the rest of the word from `start` can be split into after the previous part, memoized by
+		// both offsets, as the same rest can be reached by many ways of splitting what comes before it.
+		const fewestParts = new Map<string, number>()
+		const segment = (start: number, previousStart: number | null): number => {
+			const key = `${previousStart},${start}`
+			const memoized = fewestParts.get(key)
+			if (memoized != null) {
+				return memoized
+			}
+
+			const previousPart = previousStart == null ? null : word.slice(previousStart, start)
+			let fewest = Infinity
+			for (let end = start + minLength; end <= word.length; ++end) {
+				const isLast = end === word.length
+				if ((!isLast && word.length - end < minLength) || (isLast && previousPart == null)) {
+					continue
+				}
+
+				const part = word.slice(start, end)
+				const position = previousPart == null ? 'begin' : isLast ? 'end' : 'middle'
+				if (!this.#isCompoundPart(part, position)) {
+					continue
+				}
+				if (previousPart != null && !this.#isCompoundBoundaryAllowed(previousPart, part)) {
+					continue
+				}
+
+				fewest = Math.min(fewest, isLast ? 1 : 1 + segment(end, start))
+			}
+
+			fewestParts.set(key, fewest)
+			return fewest
+		}
+
+		const parts = segment(0, null)
+		return Number.isFinite(parts) && parts <= maxParts
+	}
+
+	/**
+	 * Whether a dictionary word is allowed at a given position in a flag-based compound word, either as it is or as an
+	 * affixed form, which can get the compound flags from its stem or its affixes.
+	 */
+	#isCompoundPart(part: string, position: CompoundPosition): boolean {
+		const ruleSets = this.#lookup(part)
+		if (ruleSets === undefined) {
+			return false
+		}
+
+		const positionFlag = position === 'begin'
+			? this.#flags.COMPOUNDBEGIN
+			: position === 'middle'
+			? this.#flags.COMPOUNDMIDDLE
+			: this.#flags.COMPOUNDEND
+		const isAllowed = (flags: string[]) => {
+			return this.#hasFlag(part, 'COMPOUNDFLAG', flags) || (positionFlag != null && flags.includes(positionFlag))
+		}
+
+		// affixed forms don't inherit compound flags, so these only allow the word as it is
+		if (ruleSets?.some((rules) => !this.#hasFlag(part, 'FORBIDDENWORD', rules) && isAllowed(rules))) {
+			return true
+		}
+
+		return this.#derivations(part).some(({ ruleCodes, form }) => {
+			return !this.#hasFlag(part, 'FORBIDDENWORD', form.flags) &&
+				this.#areCompoundAffixesAllowed(form, position) &&
+				isAllowed([...ruleCodes, ...form.compoundFlags])
+		})
+	}
+
+	/**
+	 * Whether the affixes of an affixed form are allowed at a given position in a flag-based compound word. As in
+	 * Hunspell, prefixes are only allowed on the first part and suffixes on the last, unless the affixes have the
+	 * `COMPOUNDPERMITFLAG` flag, and affixes with the `COMPOUNDFORBIDFLAG` flag aren't allowed in compounds at all.
+	 */
+	#areCompoundAffixesAllowed(form: ExpandedForm, position: CompoundPosition): boolean {
+		if (this.#hasFlag(form.word, 'COMPOUNDFORBIDFLAG', form.compoundFlags)) {
+			return false
+		}
+		if (this.#hasFlag(form.word, 'COMPOUNDPERMITFLAG', form.compoundFlags)) {
+			return true
+		}
+		return form.affixes.every((code) =>
+			this.#rules[code].type === 'PFX' ? position === 'begin' : position === 'end'
+		)
+	}
+
+	/**
+	 * Whether two adjacent parts of a flag-based compound word may be joined, according to the `CHECKCOMPOUND*`
+	 * restrictions.
+	 */
+	#isCompoundBoundaryAllowed(first: string, second: string): boolean {
+		if ('CHECKCOMPOUNDDUP' in this.#flags && first === second) {
+			return false
+		}
+
+		if ('CHECKCOMPOUNDCASE' in this.#flags) {
+			const isUpperCase = (char: string) => char !== char.toLowerCase()
+			if (isUpperCase(first.at(-1)!) || isUpperCase(second[0])) {
+				return false
+			}
+		}
+
+		if ('CHECKCOMPOUNDTRIPLE' in this.#flags) {
+			const boundary = first.slice(-2) + second.slice(0, 2)
+			if (/(.)\1\1/u.test(boundary)) {
+				return false
+			}
+		}
+
+		for (const pattern of this.#compoundPatterns) {
+			const [endChars, endFlag] = pattern.end.split('/')
+			const [beginChars, beginFlag] = pattern.begin.split('/')
+			if (
+				first.endsWith(endChars === '0' ? '' : endChars) &&
+				second.startsWith(beginChars === '0' ? '' : beginChars) &&
+				(endFlag == null || this.#lookup(first)?.some((rules) => rules.includes(endFlag))) &&
+				(beginFlag == null || this.#lookup(second)?.some((rules) => rules.includes(beginFlag)))
+			) {
+				return false
+			}
+		}
+
+		return true
+	}
+
+	/**
+	 * Checks all the words in a text, using the dictionary's `WORDCHARS` to split it into words and its `BREAK`
+	 * patterns to pinpoint the misspelled parts of words such as hyphenated compounds.
+	 *
+	 * @param text The text to check.
+	 * @param options Options for checking.
+	 * @returns The misspellings, in order of occurrence, with `start` and `end` as UTF-16 offsets into `text`.
+	 */
+	checkText(text: string, options?: Partial<CheckTextOptions>): Misspelling[] {
+		const { suggest, joinWords, realWordErrors } = { ...defaultCheckTextOptions, ...options }
+		const misspellings: Misspelling[] = []
+		const suggestOptions = suggest === true ? {} : suggest
+
+		const model = this.#languageModel
+		const tokens = tokenize(text, { wordChars: this.#flags.WORDCHARS ?? '' })
+		for (let i = 0; i < tokens.length; ++i) {
+			const token = tokens[i]
+
+			const join = joinWords && i + 1 < tokens.length ? this.#joinTokens(text, token, tokens[i + 1]) : null
+			if (join != null) {
+				misspellings.push(join)
+				++i
+				continue
+			}
+
+			const context = model == null ? null : this.#tokenContext(model, text, tokens, i)
+
+			if (this.check(token.word)) {
+				const suggestions = realWordErrors && model != null && context != null
+					? this.#realWordSuggestions(model, token.word, context)
+					: []
+				if (suggestions.length) {
+					misspellings.push({ ...token, suggestions })
+				}
+				continue
+			}
+
+			const parts = this.#splitOnBreaks(token)
+			const misspelledParts = parts.length > 1 ? parts.filter((part) => !this.check(part.word)) : parts
+
+			for (const part of misspelledParts) {
+				misspellings.push(
+					suggestOptions
+						? {
+							...part,
+							suggestions: this.suggest(
+								part.word,
+								context == null ? suggestOptions : { context, ...suggestOptions },
+							),
+						}
+						: part,
+				)
+			}
+		}
+
+		return misspellings
+	}
+
+	/**
+	 * Gets the words around a token that a language model can use as its context, which don't extend beyond the sentence.
+	 *
+	 * @param model The language model.
+	 * @param text The text the tokens are from.
+	 * @param tokens The tokens.
+	 * @param index The index of the token.
+	 * @returns The words before and after the token, separated by spaces.
+	 */
+	#tokenContext(model: LanguageModel, text: string, tokens: Token[], index: number): SuggestionContext {
+		const contextLength = Math.max(model.order - 1, 0)
+		const isBreak = (a: Token, b: Token) => SENTENCE_BREAK.test(text.slice(a.end, b.start))
+
+		let start = index
+		while (start > 0 && index - start < contextLength && !isBreak(tokens[start - 1], tokens[start])) {
+			--start
+		}
+		let end = index
+		while (end < tokens.length - 1 && end - index < contextLength && !isBreak(tokens[end], tokens[end + 1])) {
+			++end
+		}
+
+		return {
+			before: tokens.slice(start, index).map(({ word }) => word).join(' '),
+			after: tokens.slice(index + 1, end + 1).map(({ word }) => word).join(' '),
+		}
+	}
+
+	/**
+	 * Finds words a single edit away from a correct word that are more likely to be the intended word in its context,
+	 * according to a language model. The word is assumed to be intended with a high prior probability, with the rest
+	 * shared between the similar words that the language model has seen.
+	 *
+	 * @param model The language model.
+	 * @param word The word.
+	 * @param context Text before and after the word.
+	 * @returns The more likely words, most likely first, which is empty if the word seems to be intended.
+	 */
+	#realWordSuggestions(model: LanguageModel, word: string, context: SuggestionContext): string[] {
+		if (!model.has(word)) {
+			return []
+		}
+
+		const input = this.#convertInput(word)
+		const casing = detectCasing(input)
+		const candidates = [
+			...new Set(
+				this.#editSuggestions(input.toLowerCase())
+					.filter((x) => this.#isSuggestible(x))
+					.map((x) => this.#hasFlag(x, 'KEEPCASE') ? x : applyCasing(x, casing))
+					.map((x) => applyConversions(x, this.#outputConversions)),
+			),
+		].filter((x) => x.toLowerCase() !== word.toLowerCase() && model.has(x))
+		if (!candidates.length) {
+			return []
+		}
+
+		const before = this.#contextWords(context.before)
+		const after = this.#contextWords(context.after)
+
+		const threshold = model.scoreSequence(before, [word, ...after]) + Math.log(REAL_WORD_PRIOR)
+		const logCandidatePrior = Math.log((1 - REAL_WORD_PRIOR) / candidates.length)
+
+		return candidates
+			.map((candidate) => ({
+				candidate,
+				score: model.scoreSequence(before, [candidate, ...after]) + logCandidatePrior,
+			}))
+			.filter(({ score }) => score > threshold)
+			.sort((a, b) => b.score - a.score)
+			.map(({ candidate }) => candidate)
+	}
+
+	/**
+	 * Joins two adjacent tokens that are separated only by spaces, if the joined word is correct.
+	 *
+	 * @param text The text the tokens are from.
+	 * @param first The first token.
+	 * @param second The token after it.
+	 * @returns A misspelling spanning both tokens with the joined word as its suggestion, or `null` if they can't be joined.
+	 */
+	#joinTokens(text: string, first: Token, second: Token): Misspelling | null {
+		if (!/^[^\S\r\n]+$/u.test(text.slice(first.end, second.start))) {
+			return null
+		}
+
+		const joined = first.word + second.word
+		if (!this.check(joined)) {
+			return null
+		}
+
+		return { word: text.slice(first.start, second.end), start: first.start, end: second.end, suggestions: [joined] }
+	}
+
+	/**
+	 * Analyzes how a word is formed from the stems in the dictionary. As with `check`, capitalization variants of the word
+	 * are analyzed if the word itself isn't found.
+	 *
+	 * @param word The word to analyze.
+	 * @returns Each distinct way the word can be formed, which is empty if the word isn't in the dictionary. Words added
+	 * with `addWord` are their own stem.
+	 */
+	analyze(word: string): Analysis[] {
+		const trimmedWord = this.#convertInput(word.trim())
+		if (!trimmedWord) {
+			return []
+		}
+
+		const variants = new Set([
+			trimmedWord,
+			trimmedWord[0] + trimmedWord.slice(1).toLowerCase(),
+			trimmedWord[0].toLowerCase() + trimmedWord.slice(1),
+			trimmedWord.toLowerCase(),
+		])
+		for (const variant of variants) {
+			if (variant !== trimmedWord && this.#hasFlag(variant, 'KEEPCASE')) {
+				continue
+			}
+			const analyses = this.#analyzeExact(variant)
+			if (analyses.length > 0) {
+				return analyses
+			}
+		}
+
+		return []
+	}
+
+	/**
+	 * Gets the stems of a word.
+	 *
+	 * @param word The word.
+	 * @returns The distinct stems from `analyze`.
+	 */
+	stem(word: string): string[] {
+		return [...new Set(this.analyze(word).map((analysis) => analysis.stem))]
+	}
+
+	/**
+	 * Generates the forms of a stem, including those from combining prefixes with suffixes and from continuation classes.
+	 *
+	 * @param stem The stem.
+	 * @param flags The stem's flags in .dic file notation, e.g. `DSG` for `frobnicate/DSG`. If omitted, the stem's flags
+	 * in the dictionary are used.
+	 * @returns The distinct forms, including the stem itself unless it has the `NEEDAFFIX` flag.
+	 */
+	generate(stem: string, flags?: string): string[] {
+		stem = this.#convertInput(stem)
+		const ruleSets = flags != null ? [this.#parseRuleCodes(flags)] : this.#stemRuleSets(stem)
+
+		const forms = new Set<string>()
+		for (const ruleCodes of ruleSets.length > 0 ? ruleSets : [[]]) {
+			if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+				forms.add(stem)
+			}
+			for (const form of this.#expand(stem, ruleCodes)) {
+				forms.add(form.word)
+			}
+		}
+
+		return [...forms].map((x) => applyConversions(x, this.#outputConversions))
+	}
+
+	#analyzeExact(word: string): Analysis[] {
+		if (!this.checkExact(word) || this.#lookup(word) === undefined) {
+			// Words that are only correct as compounds don't have a stem.
+			return []
+		}
+
+		const analyses = new Map<string, Analysis>()
+		const addAnalysis = (analysis: Analysis) => {
+			analyses.set(JSON.stringify(analysis), analysis)
+		}
+		for (const ruleCodes of this.#stemRuleSets(word)) {
+			if (this.#flags.NEEDAFFIX == null || !ruleCodes.includes(this.#flags.NEEDAFFIX)) {
+				addAnalysis({ stem: word, prefixes: [], suffixes: [] })
+			}
+		}
+		for (const { stem, form } of this.#derivations(word)) {
+			if (!this.#hasFlag(word, 'FORBIDDENWORD', form.flags)) {
+				addAnalysis({
+					stem,
+					prefixes: form.affixes.filter((code) => this.#rules[code].type === 'PFX'),
+					suffixes: form.affixes.filter((code) => this.#rules[code].type === 'SFX'),
+				})
+			}
+		}
+		if (analyses.size === 0) {
+			addAnalysis({ stem: word, prefixes: [], suffixes: [] })
+		}
+
+		return [...analyses.values()]
+	}
+
+	get #breakPatterns(): string[] {
+		return this.#breakTable ?? DEFAULT_BREAK_PATTERNS
+	}
+
+	/**
+	 * Splits a token on the unanchored `BREAK` patterns.
+	 *
+	 * @param token The token to split.
+	 * @returns The non-empty parts, with offsets relative to the same text as the token.
+	 */
+	#splitOnBreaks(token: Token): Token[] {
+		const patterns = this.#breakPatterns
+			.filter((p) => p && !p.startsWith('^') && !p.endsWith('$'))
+			.sort((a, b) => b.length - a.length)
+		const parts: Token[] = []
+
+		let partStart = 0
+		for (let i = 0; i < token.word.length;) {
+			const pattern = patterns.find((p) => token.word.startsWith(p, i))
+			if (pattern == null) {
+				++i
+				continue
+			}
+
+			if (i > partStart) {
+				parts.push({
+					word: token.word.slice(partStart, i),
+					start: token.start + partStart,
+					end: token.start + i,
+				})
+			}
+			i += pattern.length
+			partStart = i
+		}
+		if (token.word.length > partStart) {
+			parts.push({
+				word: token.word.slice(partStart),
+				start: token.start + partStart,
+				end: token.end,
+			})
+		}
+
+		return parts
+	}
+
 	/**
 	 * Looks up whether a given word is flagged with a given flag.
 	 *
@@ -574,7 +2761,7 @@ export default class Typista {
 	 * @param flag The flag in question.
 	 */
 	#hasFlag(word: string, flag: Flag, wordFlags?: string[]): boolean {
-		wordFlags ??= Array.prototype.concat.apply([], this.#dictionaryTable[word] ?? [])
+		wordFlags ??= this.#lookup(word)?.flat() ?? []
 
 		if (flag in this.#flags) {
 			if (wordFlags.includes(this.#flags[flag])) {
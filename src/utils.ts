@@ -1,3 +1,5 @@
+import { LruCache } from '@std/cache/lru-cache'
+
 /**
  * Lexicographical order - not semantically useful, just for sort stability (we use naive version rather than
  * localeCompare for performance)
@@ -5,3 +7,65 @@
 export function lexicographicalCompare(a: string, b: string) {
 	return a === b ? 0 : a > b ? 1 : -1
 }
+
+/**
+ * Applies a conversion table, such as one from an `ICONV` or `OCONV` directive. At each position, the longest matching
+ * pattern is replaced, and matching continues after the replacement.
+ *
+ * @param str The string to convert.
+ * @param table Pairs of patterns and their replacements.
+ * @returns The converted string.
+ */
+export function applyConversions(str: string, table: [string, string][]) {
+	if (!table.length) return str
+
+	let converted = ''
+	for (let i = 0; i < str.length;) {
+		let match: [string, string] | null = null
+		for (const conversion of table) {
+			if (str.startsWith(conversion[0], i) && conversion[0].length > (match?.[0].length ?? 0)) {
+				match = conversion
+			}
+		}
+
+		if (match == null) {
+			converted += str[i++]
+		} else {
+			converted += match[1]
+			i += match[0].length
+		}
+	}
+
+	return converted
+}
+
+/**
+ * Yields to the event loop, so that long-running work can be split up without blocking it.
+ */
+export function yieldToEventLoop(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * Memoizes a function, keeping the most recently used results in a cache of limited size.
+ *
+ * @param fn The function to memoize.
+ * @param options `getKey`, which gets the cache key for the function's arguments, and `maxSize`, the maximum number of
+ * results to keep.
+ * @returns The memoized function.
+ */
+export function memoizeLru<A extends unknown[], R>(
+	fn: (...args: A) => R,
+	{ getKey, maxSize }: { getKey: (...args: A) => string; maxSize: number },
+): (...args: A) => R {
+	const cache = new LruCache<string, R>(maxSize)
+
+	return (...args) => {
+		const key = getKey(...args)
+		if (cache.has(key)) return cache.get(key) as R
+
+		const result = fn(...args)
+		cache.set(key, result)
+		return result
+	}
+}
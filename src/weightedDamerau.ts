@@ -0,0 +1,53 @@
+import { lexicographicalCompare, memoizeLru } from './utils.ts'
+
+const NULL_CHAR = '\x00'
+
+/** Cost of substituting one character for another, expected to be symmetric and between 0 and 1 */
+export type SubstitutionCost = (char1: string, char2: string) => number
+
+/**
+ * Creates a Damerau-Levenshtein (optimal string alignment) distance function in which substitutions can be cheaper
+ * than the other edit operations, e.g. for characters that are neighbors on the keyboard.
+ *
+ * Unlike `damerauDistance`, the result is not necessarily an integer.
+ *
+ * @param substitutionCost The cost of substituting one (differing) character for another.
+ * @returns The memoized distance function.
+ */
+export function createWeightedDamerauDistance(substitutionCost: SubstitutionCost): (a: string, b: string) => number {
+	return memoizeLru(function weightedDamerauDistance(str1: string, str2: string): number {
+		const chars1 = [...str1]
+		const chars2 = [...str2]
+
+		if (!chars1.length) return chars2.length
+		if (!chars2.length) return chars1.length
+
+		const width = chars2.length + 1
+		let prevPrevRow = new Float64Array(width)
+		let prevRow = Float64Array.from({ length: width }, (_, j) => j)
+		let row = new Float64Array(width)
+
+		for (let i = 1; i <= chars1.length; ++i) {
+			row[0] = i
+			const char1 = chars1[i - 1]
+			for (let j = 1; j <= chars2.length; ++j) {
+				const char2 = chars2[j - 1]
+				let cost = Math.min(
+					prevRow[j] + 1, // deletion
+					row[j - 1] + 1, // insertion
+					prevRow[j - 1] + (char1 === char2 ? 0 : substitutionCost(char1, char2)), // substitution
+				)
+				if (i > 1 && j > 1 && char1 === chars2[j - 2] && chars1[i - 2] === char2 && char1 !== char2) {
+					cost = Math.min(cost, prevPrevRow[j - 2] + 1) // transposition
+				}
+				row[j] = cost
+			}
+			;[prevPrevRow, prevRow, row] = [prevRow, row, prevPrevRow]
+		}
+
+		return prevRow[chars2.length]
+	}, {
+		maxSize: 1e5,
+		getKey: (str1, str2) => [str1, str2].sort(lexicographicalCompare).join(NULL_CHAR),
+	})
+}